@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Routes, Route, useNavigate, useLocation, useMatch, useSearchParams } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import { 
@@ -13,7 +14,10 @@ import {
 import { 
   Search as SearchIcon,
   History as HistoryIcon,
-  TrendingUp as TrendingIcon
+  TrendingUp as TrendingIcon,
+  Forum as ForumIcon,
+  Favorite as FavoriteIcon,
+  Insights as InsightsIcon
 } from '@mui/icons-material';
 import { 
   SearchBar, 
@@ -23,9 +27,80 @@ import {
   PopularSearches,
   UserMenu,
   FilterAndSort,
-  type Product
+  ProductDetail,
+  SearchSummary,
+  AssistantChat,
+  CompareTray,
+  ProductComparison,
+  SavedProducts,
+  RecentlyViewed,
+  SavedSearches,
+  SearchAnalytics,
+  LocalHistoryUpload,
+  type Product,
+  type PaginationMode
 } from './components';
-import { productApi, apiUtils, type SearchFilters, type SearchOptions } from './services/api';
+import {
+  productApi,
+  apiUtils,
+  type SearchFilters,
+  type SearchOptions,
+  type SearchResult,
+  type PaginationInfo,
+  type CatalogFacets,
+  type SearchHistoryItem
+} from './services/api';
+import {
+  APP_TABS,
+  parseSearchParams,
+  buildSearchParams,
+  getSearchKey,
+  getResultSetKey,
+  type SearchUrlState
+} from './utils/searchParams';
+import {
+  deriveAttributeFacets,
+  deriveCatalogFacets,
+  withoutFacetFilter,
+  type CatalogFacetDimension
+} from './utils/facets';
+import { fetchSuggestions } from './services/suggestions';
+import {
+  inferFilters,
+  applyInferredFilters,
+  getInferredFilterId,
+  isInferredFilterApplied,
+  type InferredFilter
+} from './utils/queryUnderstanding';
+import { useAuth } from './context/AuthContext';
+import { MAX_COMPARE_PRODUCTS } from './context/compare';
+import { useCompare } from './hooks/useCompare';
+import { useSavedProducts } from './hooks/useSavedProducts';
+import { useGuestSearchHistory } from './hooks/useGuestSearchHistory';
+import { useConversation } from './hooks/useConversation';
+import { useRecentlyViewed } from './hooks/useRecentlyViewed';
+import { useSavedSearches } from './hooks/useSavedSearches';
+import type { SavedSearch } from './utils/savedSearches';
+
+// Number of products requested per search results page
+const SEARCH_PAGE_SIZE = 24;
+
+// Everything an AI search reports besides the products themselves
+type SearchResultMeta = Omit<SearchResult, 'products'>;
+
+// Pages already loaded for one result set (same query, filters and sort)
+interface ResultPageCache {
+  key: string;
+  pages: Map<number, Product[]>;
+  meta: SearchResultMeta | null;
+}
+
+// Loaded products of recent result sets by result set key. Facets count their
+// values in the results without their own filter, so the other values stay
+// available once one is selected.
+type FacetSources = Record<string, Product[]>;
+
+const MAX_FACET_SOURCES = 10;
 
 // Create a stunning modern theme
 const theme = createTheme({
@@ -138,35 +213,284 @@ function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [isFilteringOrSorting, setIsFilteringOrSorting] = useState(false); // New state for filter/sort operations
   const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [currentTab, setCurrentTab] = useState(0);
-  
-  // Search filters and sorting state
-  const [filters, setFilters] = useState<SearchFilters>({});
-  const [sortBy, setSortBy] = useState<SearchOptions['sortBy']>('relevance');
-
-  // Fetch all products on component mount
+
+  // Search pagination state
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [searchMeta, setSearchMeta] = useState<SearchResultMeta | null>(null);
+  const [paginationMode, setPaginationMode] = useState<PaginationMode>('pages');
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Hide AI results whose relevance score is below this threshold (0 shows all)
+  const [minRelevance, setMinRelevance] = useState(0);
+  const resultCacheRef = useRef<ResultPageCache | null>(null);
+
+  // Bumped when searches from this device were added to the account, to reload the history
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // Filters read from the query text that the user dismissed or already accepted
+  const [handledInferences, setHandledInferences] = useState<{ query: string; ids: string[] }>({ query: '', ids: [] });
+  const [facetSources, setFacetSources] = useState<FacetSources>({});
+  const [catalogFacets, setCatalogFacets] = useState<{ key: string; facets: CatalogFacets } | null>(null);
+
+  // The running product request; a newer one aborts it so that a slow
+  // response can never overwrite the results of a later search
+  const requestControllerRef = useRef<AbortController | null>(null);
+  const loadMoreControllerRef = useRef<AbortController | null>(null);
+
+  // Autocomplete includes the user's own history only when signed in
+  const { state: authState } = useAuth();
+  const getSuggestions = useCallback(
+    (query: string, signal: AbortSignal) => fetchSuggestions(query, { signal, includeHistory: authState.isAuthenticated }),
+    [authState.isAuthenticated]
+  );
+
+  // Assistant conversation lives here so it survives tab switches and product pages
+  const conversation = useConversation();
+
+  // Products picked for side-by-side comparison, kept across pages
+  const compare = useCompare();
+  const comparedIds = compare.state.products.map(product => product.id);
+
+  // Wishlist, on this device for guests and in the account when signed in
+  const saved = useSavedProducts();
+  const savedIds = saved.state.products.map(product => product.id);
+
+  // Products opened from any list, kept per user on this device
+  const recentlyViewed = useRecentlyViewed(authState.user?.id ?? null);
+
+  // Pinned searches, compared against their last run to spot new results
+  const savedSearches = useSavedSearches(authState.user?.id ?? null, { pageSize: SEARCH_PAGE_SIZE });
+  const guestSearchHistory = useGuestSearchHistory(authState);
+
+  // Routing state
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Product and comparison pages are shown instead of the result list
+  const productMatch = useMatch('/products/:id');
+  const compareMatch = useMatch('/compare');
+  const isProductRoute = productMatch !== null || compareMatch !== null;
+  const scrollPositionRef = useRef(0);
+
+  // Search query, filters, sorting, page and tab live in the URL so searches
+  // survive a refresh, can be shared and work with back/forward
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlState = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+  const { query: searchQuery, filters, sortBy } = urlState;
+  const currentTab = APP_TABS.indexOf(urlState.tab);
+  const searchKey = getSearchKey(urlState);
+  const facetsKey = JSON.stringify([searchQuery, filters]);
+
+  // State the latest product request was made for
+  const lastLoadedStateRef = useRef<SearchUrlState | null>(null);
+  // State the currently displayed products belong to
+  const displayedStateRef = useRef<SearchUrlState | null>(null);
+
+  // The latest loader, so the effect below only depends on the search itself
+  const loadProductsRef = useRef<(state: SearchUrlState) => void>(() => {});
+  useEffect(() => {
+    loadProductsRef.current = loadProducts;
+  });
+
+  // Load products whenever the search part of the URL changes. Product pages
+  // have no search params, so skip them to keep the result list intact.
+  useEffect(() => {
+    if (isProductRoute || (lastLoadedStateRef.current && getSearchKey(lastLoadedStateRef.current) === searchKey)) {
+      return;
+    }
+    loadProductsRef.current(urlState);
+  }, [searchKey, urlState, isProductRoute]);
+
+  // Restore the result list scroll position when coming back from a product page
+  useEffect(() => {
+    if (isProductRoute) {
+      window.scrollTo(0, 0);
+    } else {
+      window.scrollTo(0, scrollPositionRef.current);
+    }
+  }, [isProductRoute]);
+
+  // Remember the loaded products of the latest result sets for the facets
+  useEffect(() => {
+    const state = lastLoadedStateRef.current;
+    if (!state) return;
+    const key = getResultSetKey(state);
+    setFacetSources(prev => Object.fromEntries([
+      ...Object.entries(prev).filter(([sourceKey]) => sourceKey !== key).slice(1 - MAX_FACET_SOURCES),
+      [key, products],
+    ]));
+  }, [products]);
+
+  // Fetch category and brand counts for the current search, each without its
+  // own filter. Until they arrive, or if the endpoint fails, counts are
+  // computed from the loaded products.
   useEffect(() => {
-    fetchAllProducts(); // No filters or sorting for initial load
-  }, []);
+    if (isProductRoute) return;
+
+    // Read the search from its key, so changing page or tab doesn't refetch
+    const [query, facetFilters] = JSON.parse(facetsKey) as [string, SearchFilters];
+    const getFacets = (dimension: CatalogFacetDimension) => productApi.getFacets({
+      query: query || undefined,
+      filters: withoutFacetFilter(facetFilters, dimension),
+    });
+    const categoriesRequest = getFacets('category');
+    const brandsRequest = facetFilters.category || facetFilters.brand ? getFacets('brand') : categoriesRequest;
+
+    let isCurrent = true;
+    Promise.all([categoriesRequest, brandsRequest])
+      .then(([{ categories }, { brands }]) => {
+        if (isCurrent) setCatalogFacets({ key: facetsKey, facets: { categories, brands } });
+      })
+      .catch(err => {
+        console.warn('Facets unavailable, using loaded products instead:', err);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [facetsKey, isProductRoute]);
+
+  const loadProducts = (state: SearchUrlState) => {
+    const previousState = lastLoadedStateRef.current;
+    lastLoadedStateRef.current = state;
+
+    if (!state.query) {
+      resultCacheRef.current = null;
+      setPagination(null);
+      setSearchMeta(null);
+
+      // Changing filters or sort while browsing only refreshes the grid
+      const isBrowseFilterOperation = !!previousState && !previousState.query;
+      fetchAllProducts(state.filters, state.sortBy, isBrowseFilterOperation);
+      return;
+    }
+
+    // Changing filters, sort or page of the same search only refreshes the grid
+    const isFilterOperation = !!previousState?.query && previousState.query === state.query;
+    handleSearch(state, isFilterOperation);
+  };
+
+  // Abort any running request and start a new one
+  const startRequest = () => {
+    requestControllerRef.current?.abort();
+    loadMoreControllerRef.current?.abort();
+    setIsLoading(false);
+    setIsFilteringOrSorting(false);
+
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    return controller;
+  };
+
+  // Only the latest request may update the products and loading state
+  const isLatestRequest = (controller: AbortController) => requestControllerRef.current === controller;
+
+  const finishRequest = (controller: AbortController) => {
+    if (!isLatestRequest(controller)) return;
+    requestControllerRef.current = null;
+    setIsLoading(false);
+    setIsFilteringOrSorting(false);
+  };
+
+  // Stop the running search and go back to the results still on screen
+  const cancelRequest = () => {
+    const controller = requestControllerRef.current;
+    if (!controller) return;
+
+    controller.abort();
+    finishRequest(controller);
+
+    const displayedState = displayedStateRef.current;
+    if (displayedState && getSearchKey(displayedState) !== searchKey) {
+      lastLoadedStateRef.current = displayedState;
+      setSearchParams(buildSearchParams({ ...displayedState, tab: urlState.tab }), { replace: true });
+    }
+  };
+
+  const fetchAllProducts = async (
+    applyFilters?: SearchFilters,
+    applySortBy?: SearchOptions['sortBy'],
+    isFilterOperation = false
+  ) => {
+    const controller = startRequest();
+    const state = lastLoadedStateRef.current;
 
-  const fetchAllProducts = async (applyFilters?: SearchFilters, applySortBy?: SearchOptions['sortBy']) => {
     try {
-      setIsLoading(true);
+      // Use different loading states for the initial load vs filter/sort
+      if (isFilterOperation) {
+        setIsFilteringOrSorting(true);
+      } else {
+        setIsLoading(true);
+      }
       setError(null);
       
-      // Only apply filters/sorting if explicitly provided (for search results)
-      const products = await productApi.getAllProducts(applyFilters, applySortBy);
+      const products = await productApi.getAllProducts(applyFilters, applySortBy, { signal: controller.signal });
+      if (!isLatestRequest(controller)) return;
       setProducts(products);
+      displayedStateRef.current = state;
     } catch (err) {
+      if (apiUtils.isCancelledError(err) || !isLatestRequest(controller)) return;
       console.error('Error fetching products:', err);
       setError(apiUtils.getErrorMessage(err));
     } finally {
-      setIsLoading(false);
+      finishRequest(controller);
+    }
+  };
+
+  const buildSearchOptions = (state: SearchUrlState, page: number): SearchOptions => ({
+    query: state.query,
+    filters: state.filters,
+    sortBy: state.sortBy,
+    page,
+    limit: SEARCH_PAGE_SIZE
+  });
+
+  // The server only records searches of signed-in users; guests keep theirs on this device
+  const recordGuestSearch = (
+    state: SearchUrlState,
+    outcome: Pick<SearchHistoryItem, 'resultsCount' | 'executionTimeMs' | 'success' | 'errorType'>
+  ) => {
+    if (state.page !== 1) return;
+    guestSearchHistory.recordSearch({ query: state.query, filters: { ...state.filters }, sortBy: state.sortBy, ...outcome });
+  };
+
+  // Show the cached pages: every loaded page in infinite mode, one page otherwise
+  const showCachedResults = (cache: ResultPageCache, page: number, mode: PaginationMode = paginationMode) => {
+    if (mode === 'infinite') {
+      const loadedPages = [...cache.pages.keys()].sort((a, b) => a - b);
+      setProducts(loadedPages.flatMap(loadedPage => cache.pages.get(loadedPage) || []));
+    } else {
+      setProducts(cache.pages.get(page) || []);
+    }
+    if (cache.meta) {
+      const { totalPages } = cache.meta.pagination;
+      setSearchMeta(cache.meta);
+      setPagination({
+        ...cache.meta.pagination,
+        page,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      });
     }
   };
 
-  const handleSearch = async (query: string, newFilters?: SearchFilters, newSortBy?: SearchOptions['sortBy'], isFilterOperation = false) => {
+  const handleSearch = async (state: SearchUrlState, isFilterOperation = false) => {
+    // Keep already-loaded pages while the result set stays the same
+    const resultSetKey = getResultSetKey(state);
+    if (resultCacheRef.current?.key !== resultSetKey) {
+      resultCacheRef.current = { key: resultSetKey, pages: new Map(), meta: null };
+    }
+    const cache = resultCacheRef.current;
+    const controller = startRequest();
+    const startedAt = Date.now();
+
+    if (cache.pages.has(state.page)) {
+      setError(null);
+      showCachedResults(cache, state.page);
+      displayedStateRef.current = state;
+      finishRequest(controller);
+      return;
+    }
+
     try {
       // Use different loading states for search vs filter/sort
       if (isFilterOperation) {
@@ -175,50 +499,209 @@ function App() {
         setIsLoading(true);
       }
       setError(null);
-      setSearchQuery(query);
-      
-      // Use provided filters/sort or current state
-      const searchFilters = newFilters || filters;
-      const searchSort = newSortBy || sortBy;
       
       // Call AI-powered search endpoint with options
-      const searchOptions: SearchOptions = {
-        query,
-        filters: searchFilters,
-        sortBy: searchSort,
-        page: 1,
-        limit: 50
-      };
-      
-      const recommendedProducts = await productApi.aiSearch(searchOptions);
-      setProducts(recommendedProducts);
-      
-      // Update state with the filters and sort used
-      if (newFilters) setFilters(newFilters);
-      if (newSortBy) setSortBy(newSortBy);
+      const { products: pageProducts, ...meta } = await productApi.aiSearch(
+        buildSearchOptions(state, state.page),
+        { signal: controller.signal }
+      );
+      cache.pages.set(state.page, pageProducts);
+      cache.meta = meta;
+      if (state.page === 1) {
+        savedSearches.recordRun(state, pageProducts);
+      }
+      recordGuestSearch(state, {
+        resultsCount: meta.totalResults,
+        executionTimeMs: meta.executionTimeMs ?? Date.now() - startedAt,
+        success: true,
+        errorType: null,
+      });
+
+      // Drop responses that arrive after a newer search started
+      if (!isLatestRequest(controller)) return;
+      showCachedResults(cache, state.page);
+      displayedStateRef.current = state;
       
     } catch (err) {
+      if (apiUtils.isCancelledError(err) || !isLatestRequest(controller)) return;
       console.error('Error searching products:', err);
       setError(apiUtils.getErrorMessage(err));
+      recordGuestSearch(state, {
+        resultsCount: 0,
+        executionTimeMs: Date.now() - startedAt,
+        success: false,
+        errorType: apiUtils.getErrorType(err),
+      });
     } finally {
-      if (isFilterOperation) {
-        setIsFilteringOrSorting(false);
-      } else {
-        setIsLoading(false);
+      finishRequest(controller);
+    }
+  };
+
+  // Infinite scroll: fetch the page after the last loaded one and append it
+  const handleLoadMore = async () => {
+    const cache = resultCacheRef.current;
+    const state = lastLoadedStateRef.current;
+    if (!cache || !state || !cache.meta || isLoadingMore) return;
+
+    const nextPage = Math.max(...cache.pages.keys()) + 1;
+    if (nextPage > cache.meta.pagination.totalPages) return;
+
+    const controller = new AbortController();
+    loadMoreControllerRef.current = controller;
+
+    try {
+      setIsLoadingMore(true);
+      const { products: pageProducts, ...meta } = await productApi.aiSearch(
+        buildSearchOptions(state, nextPage),
+        { signal: controller.signal }
+      );
+      cache.pages.set(nextPage, pageProducts);
+      cache.meta = meta;
+
+      // Ignore the page if another search replaced the result set meanwhile
+      if (resultCacheRef.current === cache) {
+        showCachedResults(cache, nextPage, 'infinite');
       }
+    } catch (err) {
+      if (apiUtils.isCancelledError(err)) return;
+      console.error('Error loading more products:', err);
+      setError(apiUtils.getErrorMessage(err));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handlePageChange = (page: number) => {
+    updateSearchUrl({ page });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handlePaginationModeChange = (mode: PaginationMode) => {
+    setPaginationMode(mode);
+    if (resultCacheRef.current && lastLoadedStateRef.current) {
+      showCachedResults(resultCacheRef.current, lastLoadedStateRef.current.page, mode);
+    }
+  };
+
+  // Products without a score (e.g. browse mode) are never hidden
+  const visibleProducts = minRelevance > 0
+    ? products.filter(product => product.relevanceScore === undefined || product.relevanceScore >= minRelevance)
+    : products;
+  const hasRelevanceScores = products.some(product => product.relevanceScore !== undefined);
+
+  // Loaded products of the result set without the given filters, or the current ones
+  const getFacetProducts = (omitted: Partial<SearchFilters>) => {
+    return facetSources[getResultSetKey({ ...urlState, filters: { ...filters, ...omitted } })] ?? products;
+  };
+  const attributeProducts = getFacetProducts({ attributes: undefined });
+  const categoryProducts = getFacetProducts({ category: undefined });
+  const brandProducts = getFacetProducts({ brand: undefined });
+  const attributeFacets = useMemo(
+    () => deriveAttributeFacets(attributeProducts, filters.attributes),
+    [attributeProducts, filters.attributes]
+  );
+  const { categories: categoryFacets, brands: brandFacets } = useMemo(
+    () => catalogFacets?.key === facetsKey
+      ? catalogFacets.facets
+      : deriveCatalogFacets({ categories: categoryProducts, brands: brandProducts }, filters),
+    [catalogFacets, facetsKey, categoryProducts, brandProducts, filters]
+  );
+
+  // Price bounds, brands and categories mentioned in the query, offered as filters
+  const inferredFilters = useMemo(() => {
+    if (!searchQuery) return [];
+    const handledIds = handledInferences.query === searchQuery ? handledInferences.ids : [];
+    return inferFilters(searchQuery, {
+      brands: brandFacets.map(({ value }) => value),
+      categories: categoryFacets.map(({ value }) => value),
+    }).filter(filter => !isInferredFilterApplied(filters, filter) && !handledIds.includes(getInferredFilterId(filter)));
+  }, [searchQuery, brandFacets, categoryFacets, filters, handledInferences]);
+
+  const markInferencesHandled = (handled: InferredFilter[]) => {
+    setHandledInferences(prev => ({
+      query: searchQuery,
+      ids: [...(prev.query === searchQuery ? prev.ids : []), ...handled.map(getInferredFilterId)],
+    }));
+  };
+
+  const handleAcceptInferredFilters = (accepted: InferredFilter[]) => {
+    markInferencesHandled(accepted);
+    handleFiltersChange(applyInferredFilters(filters, accepted));
+  };
+
+  // Push a new search state to the URL; the effect above loads the products
+  const updateSearchUrl = (changes: Partial<SearchUrlState>, options: { replace?: boolean } = {}) => {
+    setSearchParams(buildSearchParams({ ...urlState, ...changes }), { replace: options.replace });
+  };
+
+  const runSearch = (query: string, changes: Partial<SearchUrlState> = {}) => {
+    const nextState: SearchUrlState = { ...urlState, query, page: 1, tab: 'search', ...changes };
+
+    // Re-running the same search does not change the URL, so load directly
+    if (getSearchKey(nextState) === searchKey) {
+      lastLoadedStateRef.current = nextState;
+      resultCacheRef.current = null; // Fetch fresh results
+      handleSearch(nextState);
+      updateSearchUrl({ tab: 'search' }, { replace: true });
+      return;
+    }
+
+    updateSearchUrl(nextState);
+  };
+
+  const handleRunSavedSearch = (search: SavedSearch) => {
+    const changes = { filters: search.filters, sortBy: search.sortBy };
+    // A run is compared with the last one, so fetch it fresh even when its pages are cached
+    if (resultCacheRef.current?.key === getResultSetKey({ ...urlState, query: search.query, ...changes })) {
+      resultCacheRef.current = null;
+    }
+    runSearch(search.query, changes);
+  };
+
+  // Pin the current search, or unpin it when it is already saved
+  const handleToggleSavedSearch = () => {
+    const criteria = { query: searchQuery, filters, sortBy };
+    const existing = savedSearches.findSearch(criteria);
+    if (existing) {
+      savedSearches.removeSearch(existing.id);
+    } else {
+      savedSearches.saveSearch(criteria, resultCacheRef.current?.pages.get(1) ?? products);
     }
   };
 
   const handleProductClick = (product: Product) => {
-    // TODO: Navigate to product detail page using react-router-dom
-    console.log('Product clicked:', product);
+    recentlyViewed.addProduct(product);
+    scrollPositionRef.current = window.scrollY;
+    navigate(`/products/${product.id}`, { state: { product } });
+  };
+
+  const handleSaveToggle = async (product: Product) => {
+    try {
+      await saved.toggleSaved(product);
+    } catch (err) {
+      setError(apiUtils.getErrorMessage(err));
+    }
+  };
+
+  const handleOpenComparison = () => {
+    if (!isProductRoute) {
+      scrollPositionRef.current = window.scrollY;
+    }
+    navigate('/compare');
+  };
+
+  const handleBackToResults = () => {
+    // Go back in history when we came from the result list, otherwise
+    // (direct link to a product) fall back to the home page
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
   };
 
   const resetSearch = () => {
-    setSearchQuery('');
-    setFilters({});
-    setSortBy('relevance');
-    fetchAllProducts();
+    updateSearchUrl({ query: '', filters: {}, sortBy: 'relevance', page: 1 });
   };
 
   const handleCloseError = () => {
@@ -226,32 +709,29 @@ function App() {
   };
 
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
-    setCurrentTab(newValue);
+    updateSearchUrl({ tab: APP_TABS[newValue] }, { replace: true });
+  };
+
+  // History entries re-run with the filters and sort order they were made with
+  const handleSearchFromHistory = (options: SearchOptions) => {
+    runSearch(options.query, { filters: options.filters || {}, sortBy: options.sortBy || 'relevance' });
   };
 
-  const handleSearchFromHistory = (query: string) => {
-    setCurrentTab(0); // Switch to search tab
-    handleSearch(query);
+  const handleSearchWithCurrentFilters = (query: string) => {
+    runSearch(query); // Also switches to the search tab
   };
 
+  // Filters and sorting apply to AI searches and to browsing alike
   const handleFiltersChange = (newFilters: SearchFilters) => {
-    setFilters(newFilters);
-    // Only apply filters when there's an active search
-    if (searchQuery) {
-      handleSearch(searchQuery, newFilters, sortBy, true); // Pass true to indicate filter operation
-    }
+    updateSearchUrl({ filters: newFilters, page: 1 });
   };
 
   const handleSortChange = (newSortBy: SearchOptions['sortBy']) => {
-    setSortBy(newSortBy);
-    // Only apply sorting when there's an active search
-    if (searchQuery) {
-      handleSearch(searchQuery, filters, newSortBy, true); // Pass true to indicate sort operation
-    }
+    updateSearchUrl({ sortBy: newSortBy || 'relevance', page: 1 });
   };
 
   // Loading state for initial load
-  if (isLoading) {
+  if (isLoading && !isProductRoute) {
     return (
       <ThemeProvider theme={theme}>
         <CssBaseline />
@@ -265,6 +745,7 @@ function App() {
           <LoadingSpinner 
             size={80} 
             message="We are fetching your results..." 
+            onCancel={searchQuery ? cancelRequest : undefined}
           />
         </Box>
       </ThemeProvider>
@@ -274,272 +755,388 @@ function App() {
   return (
     <ThemeProvider theme={theme}>
         <CssBaseline />
-        <Box sx={{ 
-          minHeight: '100vh', 
-          width: '100vw',
-          maxWidth: '100vw',
-          margin: 0,
-          padding: 0,
-          background: 'linear-gradient(180deg, #f8fafc 0%, #e2e8f0 100%)',
-          position: 'relative',
-          overflow: 'hidden'
-        }}>
-        {/* Hero Section */}
-        <Box sx={{ 
-          background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-          color: 'white',
-          py: { xs: 4, sm: 6 },
-          width: '100%',
-          margin: 0,
-          position: 'relative'
-        }}>
-          <Box sx={{ position: 'relative', zIndex: 1, px: { xs: 1, sm: 2 }, width: '100%' }}>
-            {/* Header with User Menu */}
+        <Routes>
+          <Route
+            path="/products/:id"
+            element={
+              <Box sx={{
+                minHeight: '100vh',
+                background: 'linear-gradient(180deg, #f8fafc 0%, #e2e8f0 100%)'
+              }}>
+                <ProductDetail onBack={handleBackToResults} />
+              </Box>
+            }
+          />
+          <Route
+            path="/compare"
+            element={
+              <Box sx={{
+                minHeight: '100vh',
+                background: 'linear-gradient(180deg, #f8fafc 0%, #e2e8f0 100%)'
+              }}>
+                <ProductComparison
+                  products={compare.state.products}
+                  onRemove={compare.removeProduct}
+                  onClear={compare.clear}
+                  onBack={handleBackToResults}
+                  onProductClick={handleProductClick}
+                />
+              </Box>
+            }
+          />
+          <Route
+            path="*"
+            element={
             <Box sx={{ 
-              display: 'flex', 
-              justifyContent: 'flex-end', 
-              mb: { xs: 3, sm: 4 },
-              mt: { xs: 1, sm: 2 }
+              minHeight: '100vh', 
+              width: '100vw',
+              maxWidth: '100vw',
+              margin: 0,
+              padding: 0,
+              background: 'linear-gradient(180deg, #f8fafc 0%, #e2e8f0 100%)',
+              position: 'relative',
+              overflow: 'hidden'
             }}>
-              <UserMenu />
-            </Box>
+            {/* Hero Section */}
+            <Box sx={{ 
+              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+              color: 'white',
+              py: { xs: 4, sm: 6 },
+              width: '100%',
+              margin: 0,
+              position: 'relative'
+            }}>
+              <Box sx={{ position: 'relative', zIndex: 1, px: { xs: 1, sm: 2 }, width: '100%' }}>
+                {/* Header with User Menu */}
+                <Box sx={{ 
+                  display: 'flex', 
+                  justifyContent: 'flex-end', 
+                  mb: { xs: 3, sm: 4 },
+                  mt: { xs: 1, sm: 2 }
+                }}>
+                  <UserMenu />
+                </Box>
             
-            <Box sx={{ textAlign: 'center', mb: 4 }}>
-              <Typography 
-                variant="h1" 
-                component="h1" 
-                sx={{ 
-                  mb: 3,
-                  color: 'white',
-                  fontSize: { xs: '2.5rem', sm: '3rem' },
-                  fontWeight: 700
-                }}
-              >
-                🤖 Smart Product Assistant
-              </Typography>
+                <Box sx={{ textAlign: 'center', mb: 4 }}>
+                  <Typography 
+                    variant="h1" 
+                    component="h1" 
+                    sx={{ 
+                      mb: 3,
+                      color: 'white',
+                      fontSize: { xs: '2.5rem', sm: '3rem' },
+                      fontWeight: 700
+                    }}
+                  >
+                    🤖 Smart Product Assistant
+                  </Typography>
               
-              <Typography 
-                variant="h6" 
-                component="p" 
-                sx={{ 
-                  maxWidth: 700,
-                  mx: 'auto',
-                  opacity: 0.95,
-                  fontSize: { xs: '1rem', sm: '1.1rem' },
-                  lineHeight: 1.6,
-                  mb: 3
-                }}
-              >
-                Discover amazing products with AI-powered recommendations. Just describe what you're looking for and let our intelligent assistant find the perfect match for you.
-              </Typography>
-
-              {/* Quick Examples */}
-              <Box sx={{
-                display: 'flex',
-                flexWrap: 'wrap',
-                justifyContent: 'center',
-                gap: 2
-              }}>
-                {['Laptop', 'Shoes', 'Coffee maker', 'Headphones'].map((example) => (
-                  <Box
-                    key={example}
-                    sx={{
-                      px: 3,
-                      py: 1,
-                      background: 'rgba(255, 255, 255, 0.2)',
-                      borderRadius: 20,
-                      border: '1px solid rgba(255, 255, 255, 0.3)',
-                      cursor: 'pointer',
-                      fontSize: '0.9rem',
-                      fontWeight: 500,
-                      '&:hover': {
-                        background: 'rgba(255, 255, 255, 0.3)'
-                      }
+                  <Typography 
+                    variant="h6" 
+                    component="p" 
+                    sx={{ 
+                      maxWidth: 700,
+                      mx: 'auto',
+                      opacity: 0.95,
+                      fontSize: { xs: '1rem', sm: '1.1rem' },
+                      lineHeight: 1.6,
+                      mb: 3
                     }}
-                    onClick={() => handleSearch(example)}
                   >
-                    {example}
+                    Discover amazing products with AI-powered recommendations. Just describe what you're looking for and let our intelligent assistant find the perfect match for you.
+                  </Typography>
+
+                  {/* Quick Examples */}
+                  <Box sx={{
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    justifyContent: 'center',
+                    gap: 2
+                  }}>
+                    {['Laptop', 'Shoes', 'Coffee maker', 'Headphones'].map((example) => (
+                      <Box
+                        key={example}
+                        sx={{
+                          px: 3,
+                          py: 1,
+                          background: 'rgba(255, 255, 255, 0.2)',
+                          borderRadius: 20,
+                          border: '1px solid rgba(255, 255, 255, 0.3)',
+                          cursor: 'pointer',
+                          fontSize: '0.9rem',
+                          fontWeight: 500,
+                          '&:hover': {
+                            background: 'rgba(255, 255, 255, 0.3)'
+                          }
+                        }}
+                        onClick={() => runSearch(example)}
+                      >
+                        {example}
+                      </Box>
+                    ))}
                   </Box>
-                ))}
-              </Box>
-            </Box>
+                </Box>
 
 
-          </Box>
-        </Box>
+              </Box>
+            </Box>
 
-        {/* Main Content */}
-        <Box sx={{ 
-          width: '100%',
-          maxWidth: '100vw',
-          px: { xs: 0.5, sm: 1 },
-          py: { xs: 1, sm: 2 },
-          margin: 0
-        }}>
-            {/* Tabs Navigation */}
-            <Paper sx={{
-              background: 'rgba(255, 255, 255, 0.95)',
-              borderRadius: 2,
-              mb: 2,
-              boxShadow: '0 4px 20px rgba(0, 0, 0, 0.08)',
-              mx: 0,
-              width: '100%'
+            {/* Main Content */}
+            <Box sx={{ 
+              width: '100%',
+              maxWidth: '100vw',
+              px: { xs: 0.5, sm: 1 },
+              py: { xs: 1, sm: 2 },
+              margin: 0
             }}>
-              <Tabs 
-                value={currentTab} 
-                onChange={handleTabChange}
-                variant="fullWidth"
-                sx={{
-                  px: { xs: 1, sm: 2 },
-                  '& .MuiTab-root': {
-                    textTransform: 'none',
-                    fontWeight: 600,
-                    fontSize: { xs: '0.8rem', sm: '0.9rem', md: '1rem' },
-                    minHeight: { xs: 56, sm: 64 },
-                    minWidth: { xs: 80, sm: 120 },
-                    flexDirection: { xs: 'column', sm: 'row' },
-                    gap: { xs: 0.5, sm: 1 },
-                  },
-                  '& .Mui-selected': {
-                    color: 'primary.main',
-                  },
-                  '& .MuiTabs-indicator': {
-                    height: 3,
-                    borderRadius: '3px 3px 0 0',
-                  }
-                }}
-              >
-                <Tab 
-                  icon={<SearchIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
-                  label={
-                    <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Search</Box>
-                  }
-                  iconPosition="start"
-                />
-                <Tab 
-                  icon={<HistoryIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
-                  label={
-                    <Box sx={{ display: { xs: 'none', sm: 'block' } }}>History</Box>
-                  }
-                  iconPosition="start"
-                />
-                <Tab 
-                  icon={<TrendingIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
-                  label={
-                    <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Popular</Box>
-                  }
-                  iconPosition="start"
-                />
-              </Tabs>
+                {/* Tabs Navigation */}
+                <Paper sx={{
+                  background: 'rgba(255, 255, 255, 0.95)',
+                  borderRadius: 2,
+                  mb: 2,
+                  boxShadow: '0 4px 20px rgba(0, 0, 0, 0.08)',
+                  mx: 0,
+                  width: '100%'
+                }}>
+                  <Tabs 
+                    value={currentTab} 
+                    onChange={handleTabChange}
+                    variant="fullWidth"
+                    sx={{
+                      px: { xs: 1, sm: 2 },
+                      '& .MuiTab-root': {
+                        textTransform: 'none',
+                        fontWeight: 600,
+                        fontSize: { xs: '0.8rem', sm: '0.9rem', md: '1rem' },
+                        minHeight: { xs: 56, sm: 64 },
+                        minWidth: { xs: 80, sm: 120 },
+                        flexDirection: { xs: 'column', sm: 'row' },
+                        gap: { xs: 0.5, sm: 1 },
+                      },
+                      '& .Mui-selected': {
+                        color: 'primary.main',
+                      },
+                      '& .MuiTabs-indicator': {
+                        height: 3,
+                        borderRadius: '3px 3px 0 0',
+                      }
+                    }}
+                  >
+                    <Tab 
+                      icon={<SearchIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Search</Box>
+                      }
+                      iconPosition="start"
+                    />
+                    <Tab 
+                      icon={<HistoryIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>History</Box>
+                      }
+                      iconPosition="start"
+                    />
+                    <Tab 
+                      icon={<TrendingIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Popular</Box>
+                      }
+                      iconPosition="start"
+                    />
+                    <Tab 
+                      icon={<FavoriteIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Saved</Box>
+                      }
+                      iconPosition="start"
+                    />
+                    <Tab 
+                      icon={<ForumIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Assistant</Box>
+                      }
+                      iconPosition="start"
+                    />
+                    <Tab 
+                      icon={<InsightsIcon sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />} 
+                      label={
+                        <Box sx={{ display: { xs: 'none', sm: 'block' } }}>Insights</Box>
+                      }
+                      iconPosition="start"
+                    />
+                  </Tabs>
               
-              {/* Tab Content */}
-              <TabPanel value={currentTab} index={0}>
-                {/* Search Section */}
-                <Box sx={{ px: { xs: 1, sm: 2, md: 3 }, pb: { xs: 2, sm: 3 } }}>
-                  <SearchBar 
-                    onSearch={(query) => handleSearch(query)}
-                    placeholder="✨ Describe what you're looking for and get AI recommendations..."
-                  />
+                  {/* Tab Content */}
+                  <TabPanel value={currentTab} index={0}>
+                    {/* Search Section */}
+                    <Box sx={{ px: { xs: 1, sm: 2, md: 3 }, pb: { xs: 2, sm: 3 } }}>
+                      <SearchBar 
+                        onSearch={runSearch}
+                        value={searchQuery}
+                        placeholder="✨ Describe what you're looking for and get AI recommendations..."
+                        getSuggestions={getSuggestions}
+                      />
                   
-                  {searchQuery && (
-                    <Box sx={{ 
-                      textAlign: 'center', 
-                      mt: { xs: 2, sm: 3 },
-                      p: { xs: 1.5, sm: 2 },
-                      background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.1) 0%, rgba(118, 75, 162, 0.1) 100%)',
-                      borderRadius: 2,
-                      border: '1px solid rgba(102, 126, 234, 0.2)'
-                    }}>
-                      <Typography 
-                        variant="body1" 
-                        color="text.primary" 
-                        gutterBottom 
-                        sx={{ 
-                          fontWeight: 500,
-                          fontSize: { xs: '0.9rem', sm: '1rem' }
-                        }}
-                      >
-                        🎯 AI recommendations for: "<strong>{searchQuery}</strong>"
-                      </Typography>
-                      <Typography 
-                        variant="body2" 
-                        color="primary" 
-                        sx={{ 
-                          cursor: 'pointer', 
-                          fontWeight: 600,
-                          fontSize: { xs: '0.8rem', sm: '0.875rem' },
-                          '&:hover': { 
-                            textDecoration: 'underline'
-                          }
-                        }}
-                        onClick={resetSearch}
-                      >
-                        ← Clear search and show all products
-                      </Typography>
+                      {searchQuery && (
+                        <SearchSummary
+                          query={searchQuery}
+                          meta={searchMeta}
+                          onClear={resetSearch}
+                          isSaved={!!savedSearches.findSearch({ query: searchQuery, filters, sortBy })}
+                          onToggleSaved={handleToggleSavedSearch}
+                        />
+                      )}
                     </Box>
-                  )}
-                </Box>
-              </TabPanel>
+                  </TabPanel>
 
-              <TabPanel value={currentTab} index={1}>
-                <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
-                  <SearchHistory onSearchSelect={handleSearchFromHistory} />
-                </Box>
-              </TabPanel>
+                  <TabPanel value={currentTab} index={1}>
+                    <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
+                      <SavedSearches
+                        savedSearches={savedSearches.savedSearches}
+                        newResultCounts={savedSearches.newResultCounts}
+                        isChecking={savedSearches.isChecking}
+                        lastCheckedAt={savedSearches.lastCheckedAt}
+                        onRun={handleRunSavedSearch}
+                        onRemove={savedSearches.removeSearch}
+                        onCheckForChanges={savedSearches.checkForChanges}
+                      />
+                      <SearchHistory
+                        key={historyVersion}
+                        onSearchSelect={handleSearchFromHistory}
+                        onSearchWithCurrentFilters={handleSearchWithCurrentFilters}
+                      />
+                    </Box>
+                  </TabPanel>
 
-              <TabPanel value={currentTab} index={2}>
-                <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
-                  <PopularSearches onSearchSelect={handleSearchFromHistory} />
-                </Box>
-              </TabPanel>
-            </Paper>
-
-            {/* Products Section - Only show on search tab */}
-            {currentTab === 0 && (
-              <Box>
-                {/* Filters and Sorting Controls - Only show when there's a search query */}
-                {searchQuery && (
-                  <FilterAndSort
-                    filters={filters}
-                    sortBy={sortBy}
-                    onFiltersChange={handleFiltersChange}
-                    onSortChange={handleSortChange}
-                    totalResults={products.length}
-                    isLoading={isFilteringOrSorting}
-                  />
-                )}
+                  <TabPanel value={currentTab} index={2}>
+                    <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
+                      <PopularSearches onSearchSelect={handleSearchWithCurrentFilters} />
+                    </Box>
+                  </TabPanel>
+
+                  <TabPanel value={currentTab} index={3}>
+                    <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
+                      <SavedProducts
+                        products={saved.state.products}
+                        isGuest={!authState.isAuthenticated}
+                        isSyncing={saved.state.isSyncing}
+                        error={saved.state.error}
+                        onProductClick={handleProductClick}
+                        onSaveToggle={handleSaveToggle}
+                      />
+                    </Box>
+                  </TabPanel>
+
+                  <TabPanel value={currentTab} index={4}>
+                    <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
+                      <AssistantChat
+                        turns={conversation.turns}
+                        activeTurn={conversation.activeTurn}
+                        onSend={conversation.sendMessage}
+                        onSelectTurn={conversation.selectTurn}
+                        onReset={conversation.resetConversation}
+                        onProductClick={handleProductClick}
+                      />
+                    </Box>
+                  </TabPanel>
+
+                  <TabPanel value={currentTab} index={5}>
+                    <Box sx={{ px: { xs: 0.5, sm: 1 }, pb: { xs: 1, sm: 2 } }}>
+                      <SearchAnalytics onSearchSelect={handleSearchWithCurrentFilters} />
+                    </Box>
+                  </TabPanel>
+                </Paper>
+
+                {/* Products Section - Only show on search tab */}
+                {currentTab === 0 && (
+                  <Box>
+                    {/* Filters and Sorting Controls - for searches and browsing */}
+                    <FilterAndSort
+                      filters={filters}
+                      sortBy={sortBy}
+                      onFiltersChange={handleFiltersChange}
+                      onSortChange={handleSortChange}
+                      totalResults={searchMeta?.totalResults ?? products.length}
+                      isLoading={isFilteringOrSorting}
+                      minRelevance={minRelevance}
+                      onMinRelevanceChange={hasRelevanceScores ? setMinRelevance : undefined}
+                      hiddenResults={products.length - visibleProducts.length}
+                      attributeFacets={attributeFacets}
+                      categoryFacets={categoryFacets}
+                      brandFacets={brandFacets}
+                      inferredFilters={inferredFilters}
+                      onAcceptInferredFilters={handleAcceptInferredFilters}
+                      onDismissInferredFilter={(filter) => markInferencesHandled([filter])}
+                    />
                 
-                {/* Products Grid */}
-                <ProductGrid
-                  products={products}
-                  onProductClick={handleProductClick}
-                  title={searchQuery ? 
-                    `🎯 AI Recommendations (${products.length} found)` : 
-                    `✨ Featured Products (${products.length} total)`
-                  }
-                  loading={isLoading || isFilteringOrSorting}
-                  isFilteringSorting={isFilteringOrSorting}
-                />
-              </Box>
-            )}
-        </Box>
+                    {/* Recently viewed - only while browsing */}
+                    {!searchQuery && (
+                      <RecentlyViewed
+                        products={recentlyViewed.products}
+                        onProductClick={handleProductClick}
+                        onClear={recentlyViewed.clear}
+                      />
+                    )}
+
+                    {/* Products Grid */}
+                    <ProductGrid
+                      products={visibleProducts}
+                      onProductClick={handleProductClick}
+                      title={searchQuery ? 
+                        `🎯 AI Recommendations (${searchMeta?.totalResults ?? products.length} found)` : 
+                        `✨ Featured Products (${products.length} total)`
+                      }
+                      totalResults={searchQuery ? searchMeta?.totalResults : undefined}
+                      loading={isLoading || isFilteringOrSorting}
+                      isFilteringSorting={isFilteringOrSorting}
+                      onCancel={cancelRequest}
+                      pagination={searchQuery ? pagination : null}
+                      paginationMode={paginationMode}
+                      onPaginationModeChange={handlePaginationModeChange}
+                      onPageChange={handlePageChange}
+                      onLoadMore={handleLoadMore}
+                      isLoadingMore={isLoadingMore}
+                      comparedIds={comparedIds}
+                      onCompareToggle={compare.toggleProduct}
+                      isCompareFull={compare.isFull}
+                      savedIds={savedIds}
+                      onSaveToggle={handleSaveToggle}
+                    />
+                  </Box>
+                )}
+            </Box>
+
+            {/* Error Snackbar */}
+            <Snackbar 
+              open={!!error} 
+              autoHideDuration={6000} 
+              onClose={handleCloseError}
+              anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+            >
+              <Alert 
+                onClose={handleCloseError} 
+                severity="error" 
+                sx={{ width: '100%' }}
+              >
+                {error}
+              </Alert>
+            </Snackbar>
+          </Box>
+            }
+          />
+        </Routes>
+
+        {compareMatch === null && (
+          <CompareTray
+            products={compare.state.products}
+            maxProducts={MAX_COMPARE_PRODUCTS}
+            onRemove={compare.removeProduct}
+            onClear={compare.clear}
+            onCompare={handleOpenComparison}
+          />
+        )}
 
-        {/* Error Snackbar */}
-        <Snackbar 
-          open={!!error} 
-          autoHideDuration={6000} 
-          onClose={handleCloseError}
-          anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
-        >
-          <Alert 
-            onClose={handleCloseError} 
-            severity="error" 
-            sx={{ width: '100%' }}
-          >
-            {error}
-          </Alert>
-        </Snackbar>
-      </Box>
+        <LocalHistoryUpload onUploaded={() => setHistoryVersion(version => version + 1)} />
     </ThemeProvider>
   );
 }
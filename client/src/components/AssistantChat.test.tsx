@@ -0,0 +1,77 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import AssistantChat from './AssistantChat';
+import type { ConversationTurn } from '../hooks/useConversation';
+import type { Product } from './ProductCard';
+
+const products: Product[] = [
+  { id: '1', name: 'Sony WH-1000', price: 300, description: 'Headphones', image: '', attributes: { color: 'Black' } },
+  { id: '2', name: 'Bose QC45', price: 250, description: 'Headphones', image: '', attributes: { color: 'White' } },
+];
+
+const searchTurn: ConversationTurn = {
+  id: 1,
+  message: 'headphones',
+  type: 'search',
+  status: 'done',
+  options: { query: 'headphones', page: 1 },
+  refinements: [],
+  products,
+  totalResults: 2,
+};
+
+const cheaperTurn: ConversationTurn = {
+  ...searchTurn,
+  id: 2,
+  message: 'cheaper',
+  refinements: ['Under $275'],
+  products: [products[1]],
+  totalResults: 1,
+};
+
+const renderChat = (turns: ConversationTurn[], activeTurn: ConversationTurn | null) => {
+  const handlers = { onSend: vi.fn(), onSelectTurn: vi.fn(), onReset: vi.fn() };
+  render(<AssistantChat turns={turns} activeTurn={activeTurn} {...handlers} />);
+  return handlers;
+};
+
+describe('AssistantChat', () => {
+  it('sends the typed message', async () => {
+    const user = userEvent.setup();
+    const { onSend } = renderChat([], null);
+
+    await user.type(screen.getByLabelText('Message the assistant'), 'running shoes');
+    await user.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(onSend).toHaveBeenCalledWith('running shoes');
+    expect(screen.getByLabelText('Message the assistant')).toHaveValue('');
+  });
+
+  it('shows the transcript with refinements and jumps back to an earlier turn', async () => {
+    const user = userEvent.setup();
+    const { onSelectTurn } = renderChat([searchTurn, cheaperTurn], cheaperTurn);
+
+    expect(screen.getByText('cheaper')).toBeInTheDocument();
+    expect(screen.getByText('Under $275')).toBeInTheDocument();
+    expect(screen.getByText('I found 2 products for "headphones".')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Show these results' }));
+    expect(onSelectTurn).toHaveBeenCalledWith(1);
+  });
+
+  it('renders a comparison table for compare turns', () => {
+    const compareTurn: ConversationTurn = {
+      ...searchTurn,
+      id: 3,
+      message: 'compare the first two',
+      type: 'compare',
+      compared: products,
+    };
+    renderChat([searchTurn, compareTurn], compareTurn);
+
+    const table = screen.getByRole('table');
+    expect(within(table).getByText('$300.00')).toBeInTheDocument();
+    expect(within(table).getByText('White')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  IconButton,
+  Button,
+  Chip,
+  Stack,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import {
+  SmartToy as SmartToyIcon,
+  Send as SendIcon,
+  RestartAlt as RestartIcon,
+  CompareArrows as CompareIcon
+} from '@mui/icons-material';
+import ProductGrid from './ProductGrid';
+import type { Product } from './ProductCard';
+import type { ConversationTurn } from '../hooks/useConversation';
+import { formatAttributeKey, formatAttributeValue } from '../utils/attributes';
+
+interface AssistantChatProps {
+  turns: ConversationTurn[];
+  activeTurn: ConversationTurn | null;
+  onSend: (message: string) => void;
+  onSelectTurn: (id: number) => void;
+  onReset: () => void;
+  onProductClick?: (product: Product) => void;
+}
+
+const EXAMPLE_MESSAGES = [
+  'Noise cancelling headphones',
+  'Running shoes for beginners',
+  'A laptop for video editing',
+];
+
+const formatPrice = (price: number, currency = 'USD') => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(price);
+};
+
+// Side-by-side table for a comparison turn: price, category and the
+// top-level attributes of the compared products
+const ComparisonTable: React.FC<{ products: Product[] }> = ({ products }) => {
+  const attributeKeys = [...new Set(products.flatMap(product =>
+    Object.entries(product.attributes || {})
+      .filter(([, value]) => typeof value !== 'object' || Array.isArray(value))
+      .map(([key]) => key)
+  ))];
+
+  return (
+    <Box sx={{ overflowX: 'auto', mt: 1 }}>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            {products.map(product => (
+              <TableCell key={product.id} sx={{ fontWeight: 600 }}>{product.name}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          <TableRow>
+            <TableCell component="th" scope="row" sx={{ fontWeight: 600 }}>Price</TableCell>
+            {products.map(product => (
+              <TableCell key={product.id}>{formatPrice(product.price, product.currency)}</TableCell>
+            ))}
+          </TableRow>
+          <TableRow>
+            <TableCell component="th" scope="row" sx={{ fontWeight: 600 }}>Category</TableCell>
+            {products.map(product => (
+              <TableCell key={product.id}>{product.category || '—'}</TableCell>
+            ))}
+          </TableRow>
+          {attributeKeys.map(key => (
+            <TableRow key={key}>
+              <TableCell component="th" scope="row" sx={{ fontWeight: 600 }}>{formatAttributeKey(key)}</TableCell>
+              {products.map(product => (
+                <TableCell key={product.id}>{formatAttributeValue(product.attributes?.[key], key)}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+const AssistantChat: React.FC<AssistantChatProps> = ({
+  turns,
+  activeTurn,
+  onSend,
+  onSelectTurn,
+  onReset,
+  onProductClick
+}) => {
+  const [message, setMessage] = useState('');
+  const transcriptRef = useRef<HTMLDivElement | null>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    const transcript = transcriptRef.current;
+    if (transcript) {
+      transcript.scrollTop = transcript.scrollHeight;
+    }
+  }, [turns.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+    onSend(message.trim());
+    setMessage('');
+  };
+
+  const renderReply = (turn: ConversationTurn) => {
+    if (turn.status === 'loading') {
+      return (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <CircularProgress size={16} />
+          <Typography variant="body2">Looking for "{turn.options.query}"...</Typography>
+        </Box>
+      );
+    }
+
+    if (turn.status === 'error') {
+      return <Typography variant="body2" color="error">{turn.error}</Typography>;
+    }
+
+    if (turn.type === 'compare') {
+      const compared = turn.compared || [];
+      return compared.length < 2 ? (
+        <Typography variant="body2">I need at least two products from the previous results to compare.</Typography>
+      ) : (
+        <>
+          <Typography variant="body2" sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <CompareIcon fontSize="small" /> Here's how they compare:
+          </Typography>
+          <ComparisonTable products={compared} />
+        </>
+      );
+    }
+
+    const count = turn.totalResults ?? turn.products.length;
+    const isActive = activeTurn?.id === turn.id;
+    return (
+      <>
+        <Typography variant="body2">
+          {count === 0
+            ? `I couldn't find anything for "${turn.options.query}".`
+            : `I found ${count} product${count !== 1 ? 's' : ''} for "${turn.options.query}".`}
+        </Typography>
+        {turn.refinements.length > 0 && (
+          <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+            {turn.refinements.map(refinement => (
+              <Chip key={refinement} label={refinement} size="small" color="primary" variant="outlined" />
+            ))}
+          </Stack>
+        )}
+        {count > 0 && (
+          <Button
+            size="small"
+            variant={isActive ? 'contained' : 'text'}
+            onClick={() => onSelectTurn(turn.id)}
+            disabled={isActive}
+            sx={{ mt: 1, px: 1.5, py: 0.5 }}
+          >
+            {isActive ? 'Showing these results' : 'Show these results'}
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  // Results of the active turn; comparisons show the set they were made from
+  const visibleTurn = activeTurn?.status === 'done' ? activeTurn : null;
+
+  return (
+    <Box>
+      <Card sx={{ borderRadius: { xs: 2, sm: 3 }, boxShadow: '0 4px 20px rgba(0,0,0,0.08)', mb: 3 }}>
+        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+            <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+              <SmartToyIcon sx={{ color: 'primary.main' }} />
+              Shopping Assistant
+            </Typography>
+            {turns.length > 0 && (
+              <Button size="small" startIcon={<RestartIcon />} onClick={onReset} sx={{ px: 1.5, py: 0.5 }}>
+                New conversation
+              </Button>
+            )}
+          </Box>
+
+          <Box
+            ref={transcriptRef}
+            role="log"
+            aria-live="polite"
+            aria-label="Conversation"
+            sx={{
+              maxHeight: 420,
+              overflowY: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1.5,
+              mb: 2,
+            }}
+          >
+            {turns.length === 0 && (
+              <Box sx={{ textAlign: 'center', py: 2 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+                  Tell me what you're looking for, then refine it with follow-ups like
+                  "cheaper", "only Sony" or "compare the first two".
+                </Typography>
+                <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap justifyContent="center">
+                  {EXAMPLE_MESSAGES.map(example => (
+                    <Chip key={example} label={example} onClick={() => onSend(example)} variant="outlined" />
+                  ))}
+                </Stack>
+              </Box>
+            )}
+
+            {turns.map(turn => (
+              <React.Fragment key={turn.id}>
+                <Box sx={{
+                  alignSelf: 'flex-end',
+                  maxWidth: '80%',
+                  px: 2,
+                  py: 1,
+                  borderRadius: 3,
+                  color: 'white',
+                  background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                }}>
+                  <Typography variant="body2">{turn.message}</Typography>
+                </Box>
+                <Box sx={{
+                  alignSelf: 'flex-start',
+                  maxWidth: turn.type === 'compare' ? '100%' : '80%',
+                  px: 2,
+                  py: 1.5,
+                  borderRadius: 3,
+                  background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.08) 0%, rgba(118, 75, 162, 0.08) 100%)',
+                  border: activeTurn?.id === turn.id
+                    ? '1px solid rgba(102, 126, 234, 0.6)'
+                    : '1px solid rgba(102, 126, 234, 0.2)',
+                }}>
+                  {renderReply(turn)}
+                </Box>
+              </React.Fragment>
+            ))}
+          </Box>
+
+          <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              fullWidth
+              size="small"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={turns.length === 0
+                ? 'What are you shopping for?'
+                : 'Ask a follow-up, e.g. "cheaper" or "only Sony"'}
+              inputProps={{ 'aria-label': 'Message the assistant' }}
+            />
+            <IconButton type="submit" color="primary" disabled={!message.trim()} aria-label="Send message">
+              <SendIcon />
+            </IconButton>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {visibleTurn && visibleTurn.products.length > 0 && (
+        <ProductGrid
+          products={visibleTurn.products}
+          onProductClick={onProductClick}
+          title={`💬 ${visibleTurn.options.query}`}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default AssistantChat;
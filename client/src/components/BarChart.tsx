@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+
+export interface ChartPoint {
+  label: string;
+  value: number | null;
+}
+
+interface BarChartProps {
+  points: ChartPoint[];
+  ariaLabel: string;
+  height?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+// Width of the SVG coordinate system; the chart scales to its container
+const VIEW_WIDTH = 600;
+
+// Vertical bars over a time axis, with the first and last label underneath
+const BarChart: React.FC<BarChartProps> = ({
+  points,
+  ariaLabel,
+  height = 120,
+  color,
+  formatValue = (value) => String(value)
+}) => {
+  const theme = useTheme();
+  const fill = color || theme.palette.primary.main;
+  const max = Math.max(1, ...points.map(point => point.value ?? 0));
+  const slot = VIEW_WIDTH / Math.max(points.length, 1);
+  const barWidth = Math.max(slot * 0.7, 1);
+
+  return (
+    <Box>
+      <svg
+        role="img"
+        aria-label={ariaLabel}
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        width="100%"
+        height={height}
+        style={{ display: 'block' }}
+      >
+        <line x1={0} y1={height - 0.5} x2={VIEW_WIDTH} y2={height - 0.5} stroke={theme.palette.divider} />
+        {points.map((point, index) => {
+          const barHeight = ((point.value ?? 0) / max) * (height - 4);
+          return (
+            <rect
+              key={`${point.label}-${index}`}
+              x={index * slot + (slot - barWidth) / 2}
+              y={height - barHeight}
+              width={barWidth}
+              height={barHeight}
+              rx={Math.min(3, barWidth / 2)}
+              fill={fill}
+            >
+              <title>{`${point.label}: ${point.value === null ? 'no data' : formatValue(point.value)}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      {points.length > 0 && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">{points[0].label}</Typography>
+          <Typography variant="caption" color="text.secondary">{points[points.length - 1].label}</Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,88 @@
+import React from 'react';
+import {
+  Paper,
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Avatar
+} from '@mui/material';
+import { CompareArrows as CompareIcon } from '@mui/icons-material';
+import type { Product } from './ProductCard';
+
+interface CompareTrayProps {
+  products: Product[];
+  maxProducts: number;
+  onRemove: (productId: string) => void;
+  onClear: () => void;
+  onCompare: () => void;
+}
+
+// Bar pinned to the bottom of the page with the products picked for comparison
+const CompareTray: React.FC<CompareTrayProps> = ({
+  products,
+  maxProducts,
+  onRemove,
+  onClear,
+  onCompare
+}) => {
+  if (products.length === 0) return null;
+
+  return (
+    <Paper
+      elevation={8}
+      role="region"
+      aria-label="Comparison tray"
+      sx={{
+        position: 'fixed',
+        left: '50%',
+        bottom: { xs: 8, sm: 16 },
+        transform: 'translateX(-50%)',
+        width: { xs: 'calc(100% - 16px)', sm: 'auto' },
+        maxWidth: 960,
+        zIndex: 1200,
+        px: 2,
+        py: 1.5,
+        borderRadius: 4,
+        display: 'flex',
+        alignItems: 'center',
+        flexWrap: 'wrap',
+        gap: 1.5,
+        background: 'rgba(255, 255, 255, 0.95)',
+        backdropFilter: 'blur(20px)',
+        border: '1px solid rgba(102, 126, 234, 0.2)',
+      }}
+    >
+      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+        Compare ({products.length}/{maxProducts})
+      </Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, flex: 1 }}>
+        {products.map(product => (
+          <Chip
+            key={product.id}
+            avatar={<Avatar src={product.image} alt="" />}
+            label={product.name}
+            onDelete={() => onRemove(product.id)}
+            size="small"
+            sx={{ maxWidth: 200 }}
+          />
+        ))}
+      </Box>
+      <Button size="small" onClick={onClear} sx={{ px: 1.5, py: 0.5 }}>
+        Clear
+      </Button>
+      <Button
+        size="small"
+        variant="contained"
+        startIcon={<CompareIcon />}
+        onClick={onCompare}
+        disabled={products.length < 2}
+        sx={{ px: 2, py: 0.5 }}
+      >
+        Compare
+      </Button>
+    </Paper>
+  );
+};
+
+export default CompareTray;
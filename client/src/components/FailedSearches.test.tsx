@@ -0,0 +1,98 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import FailedSearches from './FailedSearches';
+import type { SearchHistoryItem } from '../services/api';
+
+const item = (id: number, overrides: Partial<SearchHistoryItem> = {}): SearchHistoryItem => ({
+  id,
+  query: `query ${id}`,
+  resultsCount: 0,
+  executionTimeMs: 3000,
+  success: false,
+  errorType: 'TIMEOUT',
+  filters: {},
+  sortBy: null,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const renderFailed = (props: Partial<React.ComponentProps<typeof FailedSearches>> = {}) => {
+  const handlers = {
+    onRetry: vi.fn(),
+    onRetryAll: vi.fn(),
+    onCancelRetryAll: vi.fn(),
+    onViewResults: vi.fn(),
+  };
+  render(
+    <FailedSearches
+      items={[]}
+      outcomes={{}}
+      isRetryingAll={false}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('FailedSearches', () => {
+  it('renders nothing without failed searches', () => {
+    renderFailed({ items: [item(1, { success: true, errorType: null })] });
+    expect(screen.queryByRole('region', { name: 'Failed searches' })).not.toBeInTheDocument();
+  });
+
+  it('groups failed searches by reason with their filters', () => {
+    renderFailed({
+      items: [
+        item(1, { filters: { brand: 'Nike' }, sortBy: 'price_asc' }),
+        item(2, { errorType: 'AI_SERVICE_ERROR' }),
+        item(3, { errorType: 'ETIMEDOUT' }),
+        item(4, { success: true, errorType: null }),
+      ],
+    });
+
+    expect(screen.getByText('Failed searches (3)')).toBeInTheDocument();
+    expect(screen.getByText('Timed out (2)')).toBeInTheDocument();
+    expect(screen.getByText('AI service error (1)')).toBeInTheDocument();
+    expect(screen.getByText('· Brand: Nike · Price: Low to High')).toBeInTheDocument();
+    expect(screen.queryByText('"query 4"')).not.toBeInTheDocument();
+  });
+
+  it('retries one or all failed searches', async () => {
+    const user = userEvent.setup();
+    const failed = [item(1), item(2, { errorType: 'AI_SERVICE_ERROR' })];
+    const { onRetry, onRetryAll } = renderFailed({ items: failed });
+
+    await user.click(screen.getByRole('button', { name: 'Retry "query 2"' }));
+    expect(onRetry).toHaveBeenCalledWith(failed[1]);
+
+    await user.click(screen.getByRole('button', { name: 'Retry all failed' }));
+    expect(onRetryAll).toHaveBeenCalledWith([failed[0], failed[1]]);
+  });
+
+  it('reports the outcome of each retry', async () => {
+    const user = userEvent.setup();
+    const failed = [item(1), item(2), item(3)];
+    const { onViewResults } = renderFailed({
+      items: failed,
+      isRetryingAll: true,
+      outcomes: {
+        1: { status: 'success', resultsCount: 4 },
+        2: { status: 'failed', message: 'Request timed out.' },
+        3: { status: 'pending' },
+      },
+    });
+
+    const rows = screen.getAllByRole('listitem');
+    expect(within(rows[0]).getByText('Worked · 4 results')).toBeInTheDocument();
+    expect(within(rows[1]).getByText('Failed again')).toBeInTheDocument();
+    expect(within(rows[2]).getByText('Retrying...')).toBeInTheDocument();
+    expect(screen.getByText('1 of 2 retried worked')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Stop retrying' })).toBeInTheDocument();
+
+    await user.click(within(rows[0]).getByRole('button', { name: 'View results' }));
+    expect(onViewResults).toHaveBeenCalledWith(failed[0]);
+  });
+});
@@ -0,0 +1,187 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Stack,
+  CircularProgress
+} from '@mui/material';
+import {
+  ErrorOutline as ErrorOutlineIcon,
+  Replay as RetryIcon,
+  CheckCircle as SuccessIcon,
+  Error as ErrorIcon
+} from '@mui/icons-material';
+import type { SearchHistoryItem } from '../services/api';
+import type { RetryOutcome } from '../hooks/useSearchRetry';
+import { getFilterLabels, SORT_LABELS, toSearchOptions } from '../utils/filters';
+import { groupFailedSearches } from '../utils/searchErrors';
+
+interface FailedSearchesProps {
+  items: SearchHistoryItem[];
+  outcomes: Record<number, RetryOutcome>;
+  isRetryingAll: boolean;
+  onRetry: (item: SearchHistoryItem) => void;
+  onRetryAll: (items: SearchHistoryItem[]) => void;
+  onCancelRetryAll: () => void;
+  onViewResults?: (item: SearchHistoryItem) => void;
+}
+
+// "Brand: Nike · Price: Low to High"
+const describeCriteria = (item: SearchHistoryItem) => {
+  const { filters = {}, sortBy = 'relevance' } = toSearchOptions(item);
+  const labels = getFilterLabels(filters).map(({ label }) => label);
+  if (sortBy !== 'relevance') labels.push(SORT_LABELS[sortBy]);
+  return labels.join(' · ');
+};
+
+const OutcomeChip: React.FC<{ outcome: RetryOutcome }> = ({ outcome }) => {
+  if (outcome.status === 'pending') {
+    return <Chip size="small" icon={<CircularProgress size={12} />} label="Retrying..." variant="outlined" />;
+  }
+  if (outcome.status === 'success') {
+    return (
+      <Chip
+        size="small"
+        icon={<SuccessIcon />}
+        color="success"
+        variant="outlined"
+        label={`Worked · ${outcome.resultsCount} result${outcome.resultsCount !== 1 ? 's' : ''}`}
+      />
+    );
+  }
+  return (
+    <Chip
+      size="small"
+      icon={<ErrorIcon />}
+      color="error"
+      variant="outlined"
+      label="Failed again"
+      title={outcome.message}
+    />
+  );
+};
+
+// Failed searches of the current history page grouped by reason, with retries
+const FailedSearches: React.FC<FailedSearchesProps> = ({
+  items,
+  outcomes,
+  isRetryingAll,
+  onRetry,
+  onRetryAll,
+  onCancelRetryAll,
+  onViewResults
+}) => {
+  const groups = groupFailedSearches(items);
+  if (groups.length === 0) return null;
+
+  const failed = items.filter(item => !item.success);
+  const retried = failed.filter(item => outcomes[item.id] && outcomes[item.id].status !== 'pending');
+  const recovered = retried.filter(item => outcomes[item.id].status === 'success');
+
+  return (
+    <Box
+      component="section"
+      aria-label="Failed searches"
+      sx={{
+        mb: { xs: 2, sm: 3 },
+        p: { xs: 1.5, sm: 2 },
+        borderRadius: 2,
+        border: '1px solid rgba(244, 67, 54, 0.25)',
+        background: 'rgba(244, 67, 54, 0.04)'
+      }}
+    >
+      <Box sx={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        flexWrap: 'wrap',
+        gap: 1,
+        mb: 1.5
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <ErrorOutlineIcon color="error" fontSize="small" />
+          <Typography variant="subtitle2" component="h3" sx={{ fontWeight: 600 }}>
+            Failed searches ({failed.length})
+          </Typography>
+          {retried.length > 0 && (
+            <Typography variant="caption" color="text.secondary">
+              {recovered.length} of {retried.length} retried worked
+            </Typography>
+          )}
+        </Box>
+        {isRetryingAll ? (
+          <Button size="small" onClick={onCancelRetryAll} sx={{ textTransform: 'none' }}>
+            Stop retrying
+          </Button>
+        ) : (
+          <Button
+            size="small"
+            variant="outlined"
+            color="error"
+            startIcon={<RetryIcon />}
+            onClick={() => onRetryAll(failed)}
+            sx={{ borderRadius: 2, textTransform: 'none' }}
+          >
+            Retry all failed
+          </Button>
+        )}
+      </Box>
+
+      <Stack spacing={1.5}>
+        {groups.map(({ reason, items: groupItems }) => (
+          <Box key={reason.code}>
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              {reason.title} ({groupItems.length})
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+              {reason.description}
+              {!reason.retryable && ' Retrying will probably fail again.'}
+            </Typography>
+            <Stack spacing={0.5} component="ul" sx={{ m: 0, p: 0, listStyle: 'none' }}>
+              {groupItems.map(item => {
+                const outcome = outcomes[item.id];
+                const criteria = describeCriteria(item);
+                return (
+                  <Box
+                    component="li"
+                    key={item.id}
+                    sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}
+                  >
+                    <Typography variant="body2" sx={{ flex: 1, minWidth: 0, wordBreak: 'break-word' }}>
+                      "{item.query}"
+                      {criteria && (
+                        <Typography component="span" variant="caption" color="text.secondary">
+                          {' '}· {criteria}
+                        </Typography>
+                      )}
+                    </Typography>
+                    {outcome && <OutcomeChip outcome={outcome} />}
+                    {outcome?.status === 'success' && onViewResults && (
+                      <Button size="small" onClick={() => onViewResults(item)} sx={{ textTransform: 'none' }}>
+                        View results
+                      </Button>
+                    )}
+                    <Button
+                      size="small"
+                      startIcon={<RetryIcon />}
+                      onClick={() => onRetry(item)}
+                      disabled={isRetryingAll || outcome?.status === 'pending'}
+                      aria-label={`Retry "${item.query}"`}
+                      sx={{ textTransform: 'none' }}
+                    >
+                      Retry
+                    </Button>
+                  </Box>
+                );
+              })}
+            </Stack>
+          </Box>
+        ))}
+      </Stack>
+    </Box>
+  );
+};
+
+export default FailedSearches;
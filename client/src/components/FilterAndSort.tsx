@@ -24,9 +24,19 @@ import {
   Clear as ClearIcon,
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
-  Tune as TuneIcon
+  Tune as TuneIcon,
+  Stars as StarsIcon,
+  Psychology as PsychologyIcon,
+  Check as CheckIcon
 } from '@mui/icons-material';
-import { type SearchFilters, type SearchOptions } from '../services/api';
+import { type SearchFilters, type SearchOptions, type FacetValue } from '../services/api';
+import { RELEVANCE_THRESHOLDS, formatRelevance } from '../utils/relevance';
+import {
+  getSelectedAttributeValues,
+  setSelectedAttributeValues,
+  type AttributeFacet
+} from '../utils/facets';
+import { getInferredFilterId, type InferredFilter } from '../utils/queryUnderstanding';
 
 interface FilterAndSortProps {
   filters: SearchFilters;
@@ -35,6 +45,15 @@ interface FilterAndSortProps {
   onSortChange: (sortBy: SearchOptions['sortBy']) => void;
   totalResults?: number;
   isLoading?: boolean;
+  minRelevance?: number;
+  onMinRelevanceChange?: (minRelevance: number) => void;
+  hiddenResults?: number; // Results hidden by the relevance threshold
+  attributeFacets?: AttributeFacet[];
+  categoryFacets?: FacetValue[];
+  brandFacets?: FacetValue[];
+  inferredFilters?: InferredFilter[]; // Read from the query, waiting to be accepted
+  onAcceptInferredFilters?: (filters: InferredFilter[]) => void;
+  onDismissInferredFilter?: (filter: InferredFilter) => void;
 }
 
 const FilterAndSort: React.FC<FilterAndSortProps> = ({
@@ -43,7 +62,16 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
   onFiltersChange,
   onSortChange,
   totalResults = 0,
-  isLoading = false
+  isLoading = false,
+  minRelevance = 0,
+  onMinRelevanceChange,
+  hiddenResults = 0,
+  attributeFacets = [],
+  categoryFacets = [],
+  brandFacets = [],
+  inferredFilters = [],
+  onAcceptInferredFilters,
+  onDismissInferredFilter
 }) => {
   const [showFilters, setShowFilters] = useState(false);
 
@@ -59,45 +87,51 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
     onFiltersChange(newFilters);
   };
 
+  const handleAttributeToggle = (key: string, value: string) => {
+    const selected = getSelectedAttributeValues(filters.attributes, key);
+    const values = selected.includes(value)
+      ? selected.filter(selectedValue => selectedValue !== value)
+      : [...selected, value];
+
+    const newFilters = { ...filters, attributes: setSelectedAttributeValues(filters.attributes, key, values) };
+    if (!newFilters.attributes) delete newFilters.attributes;
+    onFiltersChange(newFilters);
+  };
+
+  // Label for a selected attribute value, falling back to the raw value
+  const getAttributeValueLabel = (key: string, value: string) => {
+    const facet = attributeFacets.find(facet => facet.key === key);
+    return facet?.values.find(facetValue => facetValue.value === value)?.label || value;
+  };
+
   const clearAllFilters = () => {
     onFiltersChange({});
     onSortChange('relevance');
   };
 
   const getActiveFilterCount = () => {
+    // Each attribute counts as its own filter
+    const attributeCount = Object.keys(filters.attributes || {}).length;
     return Object.keys(filters).filter(key => 
+      key !== 'attributes' &&
       filters[key as keyof SearchFilters] !== undefined && 
       filters[key as keyof SearchFilters] !== ''
-    ).length;
+    ).length + attributeCount;
   };
 
-  const categories = [
-    'Electronics',
-    'Clothing', 
-    'Footwear',
-    'Home & Kitchen',
-    'Books',
-    'Sports & Outdoors',
-    'Beauty & Personal Care',
-    'Automotive',
-    'Toys & Games'
-  ];
+  // Options for a facet select; values without results are disabled,
+  // except the selected one so it can still be shown and cleared
+  const renderFacetOptions = (values: FacetValue[], selected?: string) => {
+    const options = selected && !values.some(({ value }) => value === selected)
+      ? [...values, { value: selected, count: 0 }]
+      : values;
 
-  const brands = [
-    'Apple',
-    'Samsung',
-    'Nike',
-    'Adidas', 
-    'Sony',
-    'Dell',
-    'HP',
-    'Canon',
-    'Microsoft',
-    'Google',
-    'Amazon',
-    'Beats',
-    'Bose'
-  ];
+    return options.map(({ value, count }) => (
+      <MenuItem key={value} value={value} disabled={count === 0 && value !== selected}>
+        {value} ({count})
+      </MenuItem>
+    ));
+  };
 
   return (
     <Card sx={{ 
@@ -175,7 +209,7 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
         </Box>
 
         {/* Sort Controls (Always Visible) */}
-        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: showFilters ? 2 : 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: showFilters ? 2 : 0 }}>
           <SortIcon sx={{ color: 'text.secondary' }} />
           <FormControl size="small" sx={{ minWidth: 200 }}>
             <InputLabel>Sort by</InputLabel>
@@ -193,8 +227,71 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
               <MenuItem value="oldest">📅 Oldest First</MenuItem>
             </Select>
           </FormControl>
+
+          {onMinRelevanceChange && (
+            <>
+              <StarsIcon sx={{ color: 'text.secondary' }} />
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Minimum match</InputLabel>
+                <Select
+                  value={minRelevance}
+                  label="Minimum match"
+                  onChange={(e) => onMinRelevanceChange(Number(e.target.value))}
+                >
+                  {RELEVANCE_THRESHOLDS.map(threshold => (
+                    <MenuItem key={threshold} value={threshold}>
+                      {threshold === 0 ? 'Any match' : `${formatRelevance(threshold)}+ match`}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              {hiddenResults > 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  {hiddenResults} weaker match{hiddenResults !== 1 ? 'es' : ''} hidden
+                </Typography>
+              )}
+            </>
+          )}
         </Box>
 
+        {/* Filters understood from the query text */}
+        {inferredFilters.length > 0 && onAcceptInferredFilters && (
+          <Box sx={{
+            display: 'flex',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 1,
+            mt: 2,
+            p: 1.5,
+            borderRadius: 2,
+            background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.08) 0%, rgba(118, 75, 162, 0.08) 100%)',
+            border: '1px dashed rgba(102, 126, 234, 0.4)',
+          }}>
+            <PsychologyIcon sx={{ color: 'primary.main' }} />
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              From your search:
+            </Typography>
+            {inferredFilters.map(filter => (
+              <Tooltip key={getInferredFilterId(filter)} title={`Read from "${filter.source}" — click to apply`}>
+                <Chip
+                  label={filter.label}
+                  icon={<CheckIcon />}
+                  onClick={() => onAcceptInferredFilters([filter])}
+                  onDelete={onDismissInferredFilter ? () => onDismissInferredFilter(filter) : undefined}
+                  color="primary"
+                  variant="outlined"
+                  size="small"
+                />
+              </Tooltip>
+            ))}
+            {inferredFilters.length > 1 && (
+              <Button size="small" onClick={() => onAcceptInferredFilters(inferredFilters)} sx={{ py: 0.5, px: 1.5 }}>
+                Apply all
+              </Button>
+            )}
+          </Box>
+        )}
+
         {/* Filter Controls (Collapsible) */}
         <Collapse in={showFilters}>
           <Divider sx={{ my: 2 }} />
@@ -210,9 +307,7 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
                   onChange={(e) => handleFilterChange('category', e.target.value)}
                 >
                   <MenuItem value="">All Categories</MenuItem>
-                  {categories.map(category => (
-                    <MenuItem key={category} value={category}>{category}</MenuItem>
-                  ))}
+                  {renderFacetOptions(categoryFacets, filters.category)}
                 </Select>
               </FormControl>
             </Grid>
@@ -227,9 +322,7 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
                   onChange={(e) => handleFilterChange('brand', e.target.value)}
                 >
                   <MenuItem value="">All Brands</MenuItem>
-                  {brands.map(brand => (
-                    <MenuItem key={brand} value={brand}>{brand}</MenuItem>
-                  ))}
+                  {renderFacetOptions(brandFacets, filters.brand)}
                 </Select>
               </FormControl>
             </Grid>
@@ -261,6 +354,38 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
             </Grid>
           </Grid>
 
+          {/* Attribute Facets, derived from the current results */}
+          {attributeFacets.length > 0 && (
+            <Box sx={{ mt: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {attributeFacets.map(facet => {
+                const selected = getSelectedAttributeValues(filters.attributes, facet.key);
+                return (
+                  <Box key={facet.key} role="group" aria-label={facet.label}>
+                    <Typography variant="body2" sx={{ mb: 1, fontWeight: 600 }}>
+                      {facet.label}
+                    </Typography>
+                    <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                      {facet.values.map(({ value, label, count }) => {
+                        const isSelected = selected.includes(value);
+                        return (
+                          <Chip
+                            key={value}
+                            label={`${label} (${count})`}
+                            onClick={() => handleAttributeToggle(facet.key, value)}
+                            color={isSelected ? 'primary' : 'default'}
+                            variant={isSelected ? 'filled' : 'outlined'}
+                            aria-pressed={isSelected}
+                            size="small"
+                          />
+                        );
+                      })}
+                    </Stack>
+                  </Box>
+                );
+              })}
+            </Box>
+          )}
+
           {/* Active Filters Display */}
           {getActiveFilterCount() > 0 && (
             <Box sx={{ mt: 3 }}>
@@ -300,6 +425,17 @@ const FilterAndSort: React.FC<FilterAndSortProps> = ({
                     variant="outlined"
                   />
                 )}
+                {Object.keys(filters.attributes || {}).flatMap(key =>
+                  getSelectedAttributeValues(filters.attributes, key).map(value => (
+                    <Chip
+                      key={`${key}.${value}`}
+                      label={`${attributeFacets.find(facet => facet.key === key)?.label || key}: ${getAttributeValueLabel(key, value)}`}
+                      onDelete={() => handleAttributeToggle(key, value)}
+                      size="small"
+                      variant="outlined"
+                    />
+                  ))
+                )}
               </Stack>
             </Box>
           )}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import type { ChartPoint } from './BarChart';
+
+interface LineChartProps {
+  points: ChartPoint[];
+  ariaLabel: string;
+  height?: number;
+  max?: number; // Top of the value axis, e.g. 1 for rates; defaults to the largest value
+  color?: string;
+  formatValue?: (value: number) => string;
+}
+
+const VIEW_WIDTH = 600;
+
+// A line over a time axis; points without a value break the line
+const LineChart: React.FC<LineChartProps> = ({
+  points,
+  ariaLabel,
+  height = 120,
+  max,
+  color,
+  formatValue = (value) => String(value)
+}) => {
+  const theme = useTheme();
+  const stroke = color || theme.palette.primary.main;
+  const top = max ?? Math.max(1, ...points.map(point => point.value ?? 0));
+  const step = points.length > 1 ? VIEW_WIDTH / (points.length - 1) : 0;
+
+  const toX = (index: number) => (points.length > 1 ? index * step : VIEW_WIDTH / 2);
+  const toY = (value: number) => height - 4 - (value / top) * (height - 8);
+
+  // Runs of consecutive points that have a value
+  const segments: { x: number; y: number }[][] = [];
+  points.forEach((point, index) => {
+    if (point.value === null) {
+      segments.push([]);
+      return;
+    }
+    if (segments.length === 0) segments.push([]);
+    segments[segments.length - 1].push({ x: toX(index), y: toY(point.value) });
+  });
+
+  return (
+    <Box>
+      <svg
+        role="img"
+        aria-label={ariaLabel}
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        width="100%"
+        height={height}
+        style={{ display: 'block' }}
+      >
+        <line x1={0} y1={height - 0.5} x2={VIEW_WIDTH} y2={height - 0.5} stroke={theme.palette.divider} />
+        {segments.filter(segment => segment.length > 1).map((segment, index) => (
+          <polyline
+            key={index}
+            points={segment.map(({ x, y }) => `${x},${y}`).join(' ')}
+            fill="none"
+            stroke={stroke}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            strokeLinejoin="round"
+          />
+        ))}
+        {points.map((point, index) => point.value !== null && (
+          <circle
+            key={`${point.label}-${index}`}
+            cx={toX(index)}
+            cy={toY(point.value)}
+            r={3}
+            fill={stroke}
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      {points.length > 0 && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">{points[0].label}</Typography>
+          <Typography variant="caption" color="text.secondary">{points[points.length - 1].label}</Typography>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default LineChart;
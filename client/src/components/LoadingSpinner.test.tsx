@@ -1,5 +1,6 @@
 import { render, screen } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
 import LoadingSpinner from './LoadingSpinner';
 
 describe('LoadingSpinner', () => {
@@ -183,4 +184,19 @@ describe('LoadingSpinner', () => {
     text = screen.getByText('Test');
     expect(text).toBeInTheDocument();
   });
-}); 
\ No newline at end of file
+
+  it('renders a cancel button when onCancel is provided', async () => {
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(<LoadingSpinner onCancel={onCancel} />);
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not render a cancel button by default', () => {
+    render(<LoadingSpinner />);
+
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument();
+  });
+}); 
@@ -3,7 +3,8 @@ import {
   Box,
   CircularProgress,
   Typography,
-  Backdrop
+  Backdrop,
+  Button
 } from '@mui/material';
 
 interface LoadingSpinnerProps {
@@ -11,13 +12,15 @@ interface LoadingSpinnerProps {
   message?: string;
   overlay?: boolean;
   color?: 'primary' | 'secondary' | 'inherit';
+  onCancel?: () => void; // Shows a Cancel button when provided
 }
 
 const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   size = 40,
   message,
   overlay = false,
-  color = 'primary'
+  color = 'primary',
+  onCancel
 }) => {
   // Handle message logic:
   // - If message is undefined, use "Loading..." as default
@@ -25,6 +28,12 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
   // - If message is a non-empty string, use that message
   const displayMessage = message === undefined ? "Loading..." : (message === "" ? null : message);
 
+  const cancelButton = onCancel && (
+    <Button variant="outlined" size="small" onClick={onCancel}>
+      Cancel
+    </Button>
+  );
+
   const spinnerContent = (
     <Box
       sx={{
@@ -125,6 +134,7 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
           {displayMessage}
         </Typography>
       )}
+      {cancelButton}
     </Box>
   );
 
@@ -171,6 +181,7 @@ const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({
               {displayMessage}
             </Typography>
           )}
+          {cancelButton}
         </Box>
       </Backdrop>
     );
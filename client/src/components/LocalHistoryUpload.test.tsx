@@ -0,0 +1,101 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import LocalHistoryUpload from './LocalHistoryUpload';
+import { readLocalHistory, recordLocalSearch } from '../utils/localHistory';
+
+// One auth state for every render, so the effect only runs when a test changes it
+const authState: { isLoading: boolean; user: { id: number } | null } = { isLoading: false, user: { id: 1 } };
+
+vi.mock('../context/AuthContext', () => ({
+  useAuth: () => ({ state: authState }),
+}));
+
+vi.mock('../services/api', () => ({
+  searchHistoryApi: {
+    importHistory: vi.fn(),
+  },
+  apiUtils: {
+    getErrorMessage: () => 'Server error occurred. Please try again later.',
+  },
+}));
+
+import { searchHistoryApi } from '../services/api';
+
+const search = (query: string) => ({
+  query,
+  resultsCount: 3,
+  executionTimeMs: 150,
+  success: true,
+  errorType: null,
+  filters: { brand: 'Nike' },
+  sortBy: 'relevance',
+});
+
+describe('LocalHistoryUpload', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    authState.user = { id: 1 };
+  });
+
+  it('stays hidden without searches from before signing in', () => {
+    render(<LocalHistoryUpload />);
+    expect(screen.queryByText('Keep your recent searches?')).not.toBeInTheDocument();
+  });
+
+  it('stays hidden while signed out', () => {
+    authState.user = null;
+    recordLocalSearch(search('desk lamp'));
+    render(<LocalHistoryUpload />);
+    expect(screen.queryByText('Keep your recent searches?')).not.toBeInTheDocument();
+  });
+
+  it('uploads the searches stored on this device, oldest first', async () => {
+    const user = userEvent.setup();
+    const onUploaded = vi.fn();
+    vi.mocked(searchHistoryApi.importHistory).mockResolvedValue({ success: true, importedCount: 2 });
+    recordLocalSearch(search('desk lamp'), new Date(2026, 9, 1));
+    recordLocalSearch(search('office chair'), new Date(2026, 9, 2));
+    render(<LocalHistoryUpload onUploaded={onUploaded} />);
+
+    expect(screen.getByText(/2 searches from before you signed in are stored on this device/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Upload' }));
+
+    expect(searchHistoryApi.importHistory).toHaveBeenCalledWith([
+      expect.objectContaining({ query: 'desk lamp', createdAt: new Date(2026, 9, 1).toISOString() }),
+      expect.objectContaining({ query: 'office chair', createdAt: new Date(2026, 9, 2).toISOString() }),
+    ]);
+    expect(await screen.findByText('Added 2 searches to your history')).toBeInTheDocument();
+    expect(onUploaded).toHaveBeenCalledWith(2);
+    expect(readLocalHistory()).toEqual([]);
+  });
+
+  it('keeps the searches when the upload fails', async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchHistoryApi.importHistory).mockRejectedValue(new Error('Server error'));
+    recordLocalSearch(search('desk lamp'));
+    render(<LocalHistoryUpload />);
+
+    await user.click(screen.getByRole('button', { name: 'Upload' }));
+
+    expect(await screen.findByText(/could not be uploaded: Server error occurred/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Try again' })).toBeInTheDocument();
+    expect(readLocalHistory()).toHaveLength(1);
+  });
+
+  it('discards the searches or keeps them for later', async () => {
+    const user = userEvent.setup();
+    recordLocalSearch(search('desk lamp'));
+    const { unmount } = render(<LocalHistoryUpload />);
+
+    await user.click(screen.getByRole('button', { name: 'Not now' }));
+    expect(readLocalHistory()).toHaveLength(1);
+    unmount();
+
+    render(<LocalHistoryUpload />);
+    await user.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(readLocalHistory()).toEqual([]);
+    expect(searchHistoryApi.importHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { Snackbar, Alert, AlertTitle, Button, Box } from '@mui/material';
+import { CloudUpload as UploadIcon } from '@mui/icons-material';
+import { searchHistoryApi, apiUtils } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+import { clearLocalHistory, readLocalHistory, toHistoryImportItems } from '../utils/localHistory';
+
+interface LocalHistoryUploadProps {
+  onUploaded?: (count: number) => void;
+}
+
+// After login or registration, offers to add the searches stored on this
+// device while signed out to the account history
+const LocalHistoryUpload: React.FC<LocalHistoryUploadProps> = ({ onUploaded }) => {
+  const { state: authState } = useAuth();
+  const [localCount, setLocalCount] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadedCount, setUploadedCount] = useState<number | null>(null);
+
+  const userId = authState.user?.id ?? null;
+
+  useEffect(() => {
+    if (authState.isLoading) return;
+    setLocalCount(userId === null ? 0 : readLocalHistory().length);
+    setError(null);
+  }, [userId, authState.isLoading]);
+
+  const handleUpload = async () => {
+    const items = readLocalHistory();
+    try {
+      setIsUploading(true);
+      setError(null);
+      const { importedCount } = await searchHistoryApi.importHistory(toHistoryImportItems(items));
+      clearLocalHistory();
+      setLocalCount(0);
+      setUploadedCount(importedCount);
+      onUploaded?.(importedCount);
+    } catch (err) {
+      console.error('Error uploading local search history:', err);
+      setError(apiUtils.getErrorMessage(err));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    clearLocalHistory();
+    setLocalCount(0);
+  };
+
+  // Keeps the searches on this device; they are offered again on the next login
+  const handleNotNow = () => setLocalCount(0);
+
+  return (
+    <>
+      <Snackbar open={localCount > 0} anchorOrigin={{ vertical: 'top', horizontal: 'center' }}>
+        <Alert
+          severity={error ? 'error' : 'info'}
+          icon={<UploadIcon />}
+          sx={{ width: '100%', maxWidth: 520, borderRadius: 2 }}
+        >
+          <AlertTitle>Keep your recent searches?</AlertTitle>
+          {error
+            ? `Your searches could not be uploaded: ${error}`
+            : `${localCount} search${localCount !== 1 ? 'es' : ''} from before you signed in ${localCount !== 1 ? 'are' : 'is'} stored on this device. Add ${localCount !== 1 ? 'them' : 'it'} to your account history?`}
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+            <Button size="small" color="inherit" onClick={handleNotNow} disabled={isUploading}>
+              Not now
+            </Button>
+            <Button size="small" color="inherit" onClick={handleDiscard} disabled={isUploading}>
+              Discard
+            </Button>
+            <Button size="small" variant="contained" onClick={handleUpload} disabled={isUploading}>
+              {isUploading ? 'Uploading...' : error ? 'Try again' : 'Upload'}
+            </Button>
+          </Box>
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={uploadedCount !== null}
+        autoHideDuration={4000}
+        onClose={() => setUploadedCount(null)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+        message={`Added ${uploadedCount} search${uploadedCount !== 1 ? 'es' : ''} to your history`}
+      />
+    </>
+  );
+};
+
+export default LocalHistoryUpload;
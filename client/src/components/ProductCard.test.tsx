@@ -189,4 +189,63 @@ describe('ProductCard', () => {
     expect(price).toBeInTheDocument();
     expect(description).toBeInTheDocument();
   });
-}); 
\ No newline at end of file
+
+  it('renders the relevance score as a match meter', () => {
+    render(<ProductCard product={{ ...mockProduct, relevanceScore: 0.72 }} />);
+
+    expect(screen.getByText('72% match')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Match score' })).toHaveAttribute('aria-valuenow', '72');
+  });
+
+  it('shows a best match badge for the top ranked product', () => {
+    render(<ProductCard product={{ ...mockProduct, relevanceScore: 0.55 }} rank={0} />);
+
+    expect(screen.getByText('Best match')).toBeInTheDocument();
+  });
+
+  it('shows a good match badge for other high scoring products', () => {
+    render(<ProductCard product={{ ...mockProduct, relevanceScore: 0.8 }} rank={3} />);
+
+    expect(screen.getByText('Good match')).toBeInTheDocument();
+    expect(screen.queryByText('Best match')).not.toBeInTheDocument();
+  });
+
+  it('does not show a match meter without a relevance score', () => {
+    render(<ProductCard product={mockProduct} rank={0} />);
+
+    expect(screen.queryByText(/% match/)).not.toBeInTheDocument();
+    expect(screen.queryByText('Best match')).not.toBeInTheDocument();
+  });
+
+  it('toggles the compare checkbox without opening the product', async () => {
+    const user = userEvent.setup();
+    const onClick = vi.fn();
+    const onCompareToggle = vi.fn();
+    render(<ProductCard product={mockProduct} onClick={onClick} onCompareToggle={onCompareToggle} />);
+
+    await user.click(screen.getByRole('checkbox', { name: 'Compare' }));
+
+    expect(onCompareToggle).toHaveBeenCalledWith(mockProduct);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('disables the compare checkbox when the comparison is full', () => {
+    render(<ProductCard product={mockProduct} onCompareToggle={vi.fn()} compareDisabled />);
+
+    expect(screen.getByRole('checkbox', { name: 'Compare' })).toBeDisabled();
+  });
+
+  it('saves and unsaves the product without opening it', async () => {
+    const user = userEvent.setup();
+    const onClick = vi.fn();
+    const onSaveToggle = vi.fn();
+    const { rerender } = render(<ProductCard product={mockProduct} onClick={onClick} onSaveToggle={onSaveToggle} />);
+
+    await user.click(screen.getByRole('button', { name: 'Save Test Product' }));
+    expect(onSaveToggle).toHaveBeenCalledWith(mockProduct);
+    expect(onClick).not.toHaveBeenCalled();
+
+    rerender(<ProductCard product={mockProduct} onClick={onClick} onSaveToggle={onSaveToggle} isSaved />);
+    expect(screen.getByRole('button', { name: 'Remove Test Product from saved' })).toHaveAttribute('aria-pressed', 'true');
+  });
+});
@@ -7,10 +7,20 @@ import {
   Box,
   Chip,
   Button,
+  LinearProgress,
+  Tooltip,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import SmartToyIcon from '@mui/icons-material/SmartToy';
+import StarsIcon from '@mui/icons-material/Stars';
+import FavoriteIcon from '@mui/icons-material/Favorite';
+import FavoriteBorderIcon from '@mui/icons-material/FavoriteBorder';
+import { getMatchLabel, formatRelevance } from '../utils/relevance';
+import { getHighlightAttributes } from '../utils/attributes';
 
 export interface Product {
   id: string;
@@ -20,14 +30,32 @@ export interface Product {
   image: string;
   currency?: string;
   aiExplanation?: string; // AI recommendation explanation
+  category?: string;
+  attributes?: Record<string, unknown>; // Structured specs (brand, size, color...)
+  relevanceScore?: number; // AI relevance from 0 to 1
 }
 
 interface ProductCardProps {
   product: Product;
   onClick?: (product: Product) => void;
+  rank?: number; // Position in the relevance order of the result set
+  isCompared?: boolean;
+  onCompareToggle?: (product: Product) => void;
+  compareDisabled?: boolean; // The comparison is full
+  isSaved?: boolean;
+  onSaveToggle?: (product: Product) => void;
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
+const ProductCard: React.FC<ProductCardProps> = ({
+  product,
+  onClick,
+  rank,
+  isCompared = false,
+  onCompareToggle,
+  compareDisabled = false,
+  isSaved = false,
+  onSaveToggle
+}) => {
   const [expanded, setExpanded] = useState(false);
   const [aiExpanded, setAiExpanded] = useState(false);
 
@@ -54,6 +82,10 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
     }).format(price);
   };
 
+  const { relevanceScore } = product;
+  const matchLabel = relevanceScore !== undefined ? getMatchLabel(relevanceScore, rank) : null;
+  const highlightAttributes = getHighlightAttributes(product.attributes);
+
   return (
     <Card
       sx={{
@@ -94,6 +126,72 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
             (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x200?text=No+Image';
           }}
         />
+        {matchLabel && (
+          <Chip
+            icon={<StarsIcon />}
+            label={matchLabel}
+            size="small"
+            color={rank === 0 ? 'secondary' : 'primary'}
+            sx={{
+              position: 'absolute',
+              top: 12,
+              left: 12,
+              fontWeight: 700,
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+            }}
+          />
+        )}
+        {onCompareToggle && (
+          <Tooltip describeChild title={compareDisabled && !isCompared ? 'The comparison is full' : ''}>
+            <FormControlLabel
+              onClick={(e) => e.stopPropagation()}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={isCompared}
+                  disabled={compareDisabled && !isCompared}
+                  onChange={() => onCompareToggle(product)}
+                  sx={{ p: 0.5 }}
+                />
+              }
+              label="Compare"
+              sx={{
+                position: 'absolute',
+                top: 12,
+                right: 12,
+                m: 0,
+                pr: 1.5,
+                borderRadius: 5,
+                background: 'rgba(255, 255, 255, 0.9)',
+                boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+                '& .MuiFormControlLabel-label': { fontSize: '0.8rem', fontWeight: 600 },
+              }}
+            />
+          </Tooltip>
+        )}
+        {onSaveToggle && (
+          <IconButton
+            aria-label={isSaved ? `Remove ${product.name} from saved` : `Save ${product.name}`}
+            aria-pressed={isSaved}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSaveToggle(product);
+            }}
+            sx={{
+              position: 'absolute',
+              bottom: 12,
+              right: 12,
+              color: isSaved ? 'error.main' : 'text.secondary',
+              background: 'rgba(255, 255, 255, 0.9)',
+              boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+              '&:hover': {
+                background: 'rgba(255, 255, 255, 1)',
+              }
+            }}
+          >
+            {isSaved ? <FavoriteIcon /> : <FavoriteBorderIcon />}
+          </IconButton>
+        )}
       </Box>
       <CardContent sx={{ 
         flexGrow: 1, 
@@ -122,7 +220,32 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
           {product.name}
         </Typography>
         
-        <Box sx={{ mb: 2 }}>
+        {relevanceScore !== undefined && (
+          <Tooltip title="How well this product matches your search">
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <LinearProgress
+                variant="determinate"
+                value={relevanceScore * 100}
+                aria-label="Match score"
+                sx={{
+                  flex: 1,
+                  height: 6,
+                  borderRadius: 3,
+                  backgroundColor: 'rgba(102, 126, 234, 0.15)',
+                  '& .MuiLinearProgress-bar': {
+                    borderRadius: 3,
+                    background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                  }
+                }}
+              />
+              <Typography variant="caption" sx={{ fontWeight: 700, color: 'primary.main', minWidth: 70, textAlign: 'right' }}>
+                {formatRelevance(relevanceScore)} match
+              </Typography>
+            </Box>
+          </Tooltip>
+        )}
+
+        <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
           <Chip
             className="price-chip"
             label={formatPrice(product.price, product.currency)}
@@ -139,8 +262,42 @@ const ProductCard: React.FC<ProductCardProps> = ({ product, onClick }) => {
               }
             }}
           />
+          {product.category && (
+            <Chip
+              label={product.category}
+              size="small"
+              variant="outlined"
+              sx={{ color: 'text.secondary' }}
+            />
+          )}
         </Box>
 
+        {highlightAttributes.length > 0 && (
+          <Box
+            component="dl"
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'auto 1fr',
+              columnGap: 1.5,
+              rowGap: 0.5,
+              m: 0,
+              mb: 2,
+              fontSize: '0.85rem',
+            }}
+          >
+            {highlightAttributes.map(({ key, label, value }) => (
+              <React.Fragment key={key}>
+                <Box component="dt" sx={{ color: 'text.secondary', fontWeight: 500 }}>
+                  {label}
+                </Box>
+                <Box component="dd" sx={{ m: 0, color: 'text.primary', fontWeight: 600 }}>
+                  {value}
+                </Box>
+              </React.Fragment>
+            ))}
+          </Box>
+        )}
+
         <Box>
           <Typography
             variant="body2"
@@ -0,0 +1,79 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import ProductComparison from './ProductComparison';
+import type { Product } from './ProductCard';
+
+const products: Product[] = [
+  {
+    id: '1',
+    name: 'Trail Runner',
+    price: 89.99,
+    description: '',
+    image: 'https://example.com/1.jpg',
+    category: 'Footwear',
+    attributes: { brand: 'Acme', weight_g: 280 },
+    aiExplanation: 'Light and grippy',
+  },
+  {
+    id: '2',
+    name: 'Road Runner',
+    price: 119.99,
+    description: '',
+    image: 'https://example.com/2.jpg',
+    category: 'Footwear',
+    attributes: { brand: 'Acme', weight_g: 240 },
+  },
+];
+
+const renderComparison = (items = products) => {
+  const props = { onRemove: vi.fn(), onClear: vi.fn(), onBack: vi.fn() };
+  render(<ProductComparison products={items} {...props} />);
+  return props;
+};
+
+describe('ProductComparison', () => {
+  it('aligns each detail of the compared products in a row', () => {
+    renderComparison();
+
+    const table = screen.getByRole('table', { name: 'Product comparison' });
+    const priceRow = within(table).getByRole('row', { name: /price/i });
+    expect(within(priceRow).getByText('$89.99')).toBeInTheDocument();
+    expect(within(priceRow).getByText('$119.99')).toBeInTheDocument();
+    expect(within(table).getByText('Light and grippy')).toBeInTheDocument();
+  });
+
+  it('marks the best value of a row', () => {
+    renderComparison();
+
+    const weightRow = screen.getByRole('row', { name: /weight/i });
+    const cells = within(weightRow).getAllByRole('cell');
+    expect(within(cells[0]).queryByLabelText('Best value')).toBeNull();
+    expect(within(cells[1]).getByLabelText('Best value')).toBeInTheDocument();
+  });
+
+  it('can hide rows where every product is the same', async () => {
+    const user = userEvent.setup();
+    renderComparison();
+
+    expect(screen.getByRole('row', { name: /brand/i })).toBeInTheDocument();
+    await user.click(screen.getByLabelText('Show only differences'));
+    expect(screen.queryByRole('row', { name: /brand/i })).toBeNull();
+    expect(screen.getByRole('row', { name: /price/i })).toBeInTheDocument();
+  });
+
+  it('removes a product from the comparison', async () => {
+    const user = userEvent.setup();
+    const { onRemove } = renderComparison();
+
+    await user.click(screen.getByRole('button', { name: 'Remove Road Runner' }));
+    expect(onRemove).toHaveBeenCalledWith('2');
+  });
+
+  it('asks for more products when fewer than two are picked', () => {
+    renderComparison(products.slice(0, 1));
+
+    expect(screen.getByText('Pick at least two products to compare')).toBeInTheDocument();
+    expect(screen.queryByRole('table')).toBeNull();
+  });
+});
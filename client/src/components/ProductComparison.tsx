@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  Container,
+  Box,
+  Card,
+  Typography,
+  Button,
+  IconButton,
+  FormControlLabel,
+  Switch,
+  Table,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
+  Tooltip
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Close as CloseIcon,
+  CompareArrows as CompareIcon,
+  EmojiEvents as BestIcon
+} from '@mui/icons-material';
+import type { Product } from './ProductCard';
+import { buildComparisonRows } from '../utils/compare';
+
+interface ProductComparisonProps {
+  products: Product[];
+  onRemove: (productId: string) => void;
+  onClear: () => void;
+  onBack: () => void;
+  onProductClick?: (product: Product) => void;
+}
+
+const ProductComparison: React.FC<ProductComparisonProps> = ({
+  products,
+  onRemove,
+  onClear,
+  onBack,
+  onProductClick
+}) => {
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const rows = buildComparisonRows(products);
+  const visibleRows = differencesOnly ? rows.filter(row => row.isDifferent) : rows;
+
+  const backButton = (
+    <Button
+      startIcon={<ArrowBackIcon />}
+      onClick={onBack}
+      variant="outlined"
+      size="small"
+      sx={{ borderRadius: 2, mb: 3 }}
+    >
+      Back to results
+    </Button>
+  );
+
+  if (products.length < 2) {
+    return (
+      <Container maxWidth="lg" sx={{ py: { xs: 3, sm: 5 } }}>
+        {backButton}
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <CompareIcon sx={{ fontSize: 64, color: 'text.disabled', mb: 2 }} />
+          <Typography variant="h5" sx={{ fontWeight: 700, mb: 1 }}>
+            Pick at least two products to compare
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Tick "Compare" on the product cards to add them here.
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 3, sm: 5 } }}>
+      {backButton}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Typography variant="h4" component="h1" sx={{ fontWeight: 700 }}>
+          Compare products
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <FormControlLabel
+            control={<Switch checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />}
+            label="Show only differences"
+          />
+          <Button size="small" onClick={onClear} sx={{ px: 1.5, py: 0.5 }}>
+            Clear all
+          </Button>
+        </Box>
+      </Box>
+
+      <Card sx={{
+        borderRadius: { xs: 3, sm: 5 },
+        background: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.1)',
+        overflowX: 'auto',
+        '&:hover': {
+          transform: 'none',
+        },
+      }}>
+        <Table size="small" aria-label="Product comparison">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ width: 160 }} />
+              {products.map(product => (
+                <TableCell key={product.id} sx={{ verticalAlign: 'top', minWidth: 180 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                    <Box
+                      component="img"
+                      src={product.image}
+                      alt=""
+                      sx={{ width: 56, height: 56, objectFit: 'cover', borderRadius: 2, flexShrink: 0 }}
+                    />
+                    <Typography
+                      variant="subtitle2"
+                      onClick={onProductClick ? () => onProductClick(product) : undefined}
+                      sx={{
+                        flex: 1,
+                        fontWeight: 700,
+                        cursor: onProductClick ? 'pointer' : 'default',
+                        '&:hover': onProductClick ? { color: 'primary.main' } : {},
+                      }}
+                    >
+                      {product.name}
+                    </Typography>
+                    <IconButton size="small" onClick={() => onRemove(product.id)} aria-label={`Remove ${product.name}`}>
+                      <CloseIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell component="th" scope="row" sx={{ fontWeight: 600, verticalAlign: 'top' }}>
+                  {row.label}
+                </TableCell>
+                {row.values.map((value, index) => {
+                  const isBest = row.bestIndices.includes(index);
+                  return (
+                    <TableCell
+                      key={products[index].id}
+                      sx={{
+                        verticalAlign: 'top',
+                        fontWeight: isBest ? 700 : 400,
+                        fontStyle: row.key === 'aiExplanation' ? 'italic' : 'normal',
+                        background: isBest
+                          ? 'rgba(76, 175, 80, 0.12)'
+                          : row.isDifferent ? 'rgba(102, 126, 234, 0.06)' : 'transparent',
+                      }}
+                    >
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {value}
+                        {isBest && (
+                          <Tooltip title="Best value">
+                            <BestIcon fontSize="small" color="success" aria-label="Best value" />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+            {visibleRows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={products.length + 1} sx={{ textAlign: 'center', color: 'text.secondary', py: 3 }}>
+                  These products don't differ in any of their details.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+    </Container>
+  );
+};
+
+export default ProductComparison;
@@ -0,0 +1,133 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MemoryRouter, Routes, Route, Link } from 'react-router-dom';
+import ProductDetail from './ProductDetail';
+import type { Product } from './ProductCard';
+
+// Mock the API service
+vi.mock('../services/api', () => ({
+  productApi: {
+    getProductById: vi.fn(),
+  },
+  apiUtils: {
+    getErrorMessage: vi.fn(() => 'API Error occurred'),
+    isNotFoundError: vi.fn((error: { status?: number }) => error?.status === 404),
+  },
+}));
+
+import { productApi } from '../services/api';
+
+const mockProduct: Product = {
+  id: '7',
+  name: 'Noise Cancelling Headphones',
+  price: 249.99,
+  description: 'Over-ear headphones with adaptive noise cancellation.',
+  image: 'https://example.com/headphones.jpg',
+  currency: 'USD',
+  attributes: {
+    brand: 'Sony',
+    color: 'Black',
+  },
+};
+
+const renderDetail = (state?: { product: Product }, onBack = vi.fn()) => {
+  render(
+    <MemoryRouter initialEntries={[{ pathname: '/products/7', state }]}>
+      <Routes>
+        <Route path="/products/:id" element={<ProductDetail onBack={onBack} />} />
+      </Routes>
+    </MemoryRouter>
+  );
+  return onBack;
+};
+
+describe('ProductDetail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the product by route id and renders its details', async () => {
+    vi.mocked(productApi.getProductById).mockResolvedValue(mockProduct);
+
+    renderDetail();
+
+    await waitFor(() => {
+      expect(screen.getByText('Noise Cancelling Headphones')).toBeInTheDocument();
+    });
+
+    expect(productApi.getProductById).toHaveBeenCalledWith('7');
+    expect(screen.getByText('$249.99')).toBeInTheDocument();
+    expect(screen.getByText('Over-ear headphones with adaptive noise cancellation.')).toBeInTheDocument();
+    expect(screen.getByText('Specifications')).toBeInTheDocument();
+    expect(screen.getByText('Sony')).toBeInTheDocument();
+  });
+
+  it('keeps the AI explanation from the result list it was opened from', async () => {
+    vi.mocked(productApi.getProductById).mockResolvedValue(mockProduct);
+
+    renderDetail({ product: { ...mockProduct, aiExplanation: 'Great for long flights.' } });
+
+    expect(screen.getByText('Great for long flights.')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(productApi.getProductById).toHaveBeenCalledWith('7');
+    });
+    expect(screen.getByText('Great for long flights.')).toBeInTheDocument();
+  });
+
+  it('drops the AI explanation when moving on to another product', async () => {
+    const user = userEvent.setup();
+    const otherProduct = { ...mockProduct, id: '8', name: 'Wireless Earbuds' };
+    vi.mocked(productApi.getProductById).mockImplementation(async id => (id === '8' ? otherProduct : mockProduct));
+    render(
+      <MemoryRouter
+        initialEntries={[{ pathname: '/products/7', state: { product: { ...mockProduct, aiExplanation: 'Great for long flights.' } } }]}
+      >
+        <Link to="/products/8">Next product</Link>
+        <Routes>
+          <Route path="/products/:id" element={<ProductDetail onBack={vi.fn()} />} />
+        </Routes>
+      </MemoryRouter>
+    );
+    await waitFor(() => {
+      expect(productApi.getProductById).toHaveBeenCalledWith('7');
+    });
+
+    await user.click(screen.getByRole('link', { name: 'Next product' }));
+
+    expect(await screen.findByText('Wireless Earbuds')).toBeInTheDocument();
+    expect(screen.queryByText('Great for long flights.')).not.toBeInTheDocument();
+  });
+
+  it('shows a not found state for unknown products', async () => {
+    vi.mocked(productApi.getProductById).mockRejectedValue({ status: 404 });
+
+    renderDetail();
+
+    await waitFor(() => {
+      expect(screen.getByText('Product not found')).toBeInTheDocument();
+    });
+  });
+
+  it('shows an error with retry for other failures', async () => {
+    vi.mocked(productApi.getProductById).mockRejectedValue(new Error('boom'));
+
+    renderDetail();
+
+    await waitFor(() => {
+      expect(screen.getByText('API Error occurred')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('button', { name: /retry/i })).toBeInTheDocument();
+  });
+
+  it('calls onBack when the back button is clicked', async () => {
+    vi.mocked(productApi.getProductById).mockResolvedValue(mockProduct);
+    const user = userEvent.setup();
+
+    const onBack = renderDetail();
+    await user.click(screen.getByRole('button', { name: /back to results/i }));
+
+    expect(onBack).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useLocation } from 'react-router-dom';
+import {
+  Container,
+  Box,
+  Card,
+  CardMedia,
+  Typography,
+  Chip,
+  Button,
+  Alert,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  SmartToy as SmartToyIcon,
+  Refresh as RefreshIcon,
+  SearchOff as SearchOffIcon
+} from '@mui/icons-material';
+import LoadingSpinner from './LoadingSpinner';
+import type { Product } from './ProductCard';
+import { productApi, apiUtils } from '../services/api';
+import { getAttributeRows } from '../utils/attributes';
+
+interface ProductDetailProps {
+  onBack: () => void;
+}
+
+// Navigation state passed along when a product is opened from a result list
+interface ProductDetailLocationState {
+  product?: Product;
+}
+
+const ProductDetail: React.FC<ProductDetailProps> = ({ onBack }) => {
+  const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const initialProduct = (location.state as ProductDetailLocationState | null)?.product;
+
+  const [product, setProduct] = useState<Product | null>(
+    initialProduct && initialProduct.id === id ? initialProduct : null
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const fetchProduct = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setNotFound(false);
+      const fetchedProduct = await productApi.getProductById(id);
+      // The detail endpoint has no search context, so keep the AI explanation
+      // from the result list the product was opened from
+      setProduct(prev => ({
+        ...fetchedProduct,
+        aiExplanation: fetchedProduct.aiExplanation
+          ?? (prev?.id === fetchedProduct.id ? prev.aiExplanation : undefined),
+      }));
+    } catch (err) {
+      console.error('Error fetching product:', err);
+      if (apiUtils.isNotFoundError(err)) {
+        setNotFound(true);
+        setProduct(null);
+      } else {
+        setError(apiUtils.getErrorMessage(err));
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProduct();
+  }, [fetchProduct]);
+
+  const formatPrice = (price: number, currency: string = 'USD') => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currency,
+    }).format(price);
+  };
+
+  const backButton = (
+    <Button
+      startIcon={<ArrowBackIcon />}
+      onClick={onBack}
+      variant="outlined"
+      size="small"
+      sx={{ borderRadius: 2, mb: 3 }}
+    >
+      Back to results
+    </Button>
+  );
+
+  if (notFound) {
+    return (
+      <Container maxWidth="lg" sx={{ py: { xs: 3, sm: 5 } }}>
+        {backButton}
+        <Box sx={{ textAlign: 'center', py: 8 }}>
+          <SearchOffIcon sx={{ fontSize: 64, color: 'text.disabled', mb: 2 }} />
+          <Typography variant="h5" sx={{ fontWeight: 700, mb: 1 }}>
+            Product not found
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            This product may have been removed or the link is incorrect.
+          </Typography>
+        </Box>
+      </Container>
+    );
+  }
+
+  if (!product) {
+    return (
+      <Container maxWidth="lg" sx={{ py: { xs: 3, sm: 5 } }}>
+        {backButton}
+        {loading ? (
+          <LoadingSpinner message="Loading product details..." />
+        ) : (
+          <Alert
+            severity="error"
+            sx={{ borderRadius: 2 }}
+            action={
+              <Button color="inherit" size="small" startIcon={<RefreshIcon />} onClick={fetchProduct}>
+                Retry
+              </Button>
+            }
+          >
+            {error || 'Failed to load product'}
+          </Alert>
+        )}
+      </Container>
+    );
+  }
+
+  const attributeRows = getAttributeRows(product.attributes);
+
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 3, sm: 5 } }}>
+      {backButton}
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 3, borderRadius: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{
+        display: 'flex',
+        flexDirection: { xs: 'column', md: 'row' },
+        borderRadius: { xs: 3, sm: 5 },
+        overflow: 'hidden',
+        background: 'rgba(255, 255, 255, 0.95)',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.1)',
+        '&:hover': {
+          transform: 'none',
+        },
+      }}>
+        <CardMedia
+          component="img"
+          image={product.image}
+          alt={product.name}
+          sx={{
+            width: { xs: '100%', md: '45%' },
+            maxHeight: { xs: 320, md: 'none' },
+            objectFit: 'cover'
+          }}
+          onError={(e) => {
+            // Fallback to a placeholder image if the image fails to load
+            (e.target as HTMLImageElement).src = 'https://via.placeholder.com/600x400?text=No+Image';
+          }}
+        />
+
+        <Box sx={{ flex: 1, p: { xs: 3, sm: 4 }, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          <Box>
+            {product.category && (
+              <Typography variant="overline" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                {product.category}
+              </Typography>
+            )}
+            <Typography variant="h4" component="h1" sx={{ fontWeight: 700, mb: 2 }}>
+              {product.name}
+            </Typography>
+            <Chip
+              label={formatPrice(product.price, product.currency)}
+              sx={{
+                fontWeight: 700,
+                fontSize: '1.1rem',
+                height: 44,
+                borderRadius: 5,
+                background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.1) 0%, rgba(118, 75, 162, 0.1) 100%)',
+                color: 'primary.main',
+                border: '2px solid rgba(102, 126, 234, 0.2)',
+              }}
+            />
+          </Box>
+
+          <Typography variant="body1" color="text.secondary" sx={{ lineHeight: 1.7, whiteSpace: 'pre-line' }}>
+            {product.description}
+          </Typography>
+
+          {product.aiExplanation && (
+            <Box sx={{
+              p: 2,
+              borderRadius: 2,
+              background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.08) 0%, rgba(118, 75, 162, 0.08) 100%)',
+              border: '1px solid rgba(102, 126, 234, 0.2)',
+            }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+                <SmartToyIcon sx={{ fontSize: '1rem', mr: 0.5, color: 'primary.main' }} />
+                <Typography
+                  variant="caption"
+                  sx={{
+                    fontWeight: 600,
+                    color: 'primary.main',
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.5px',
+                  }}
+                >
+                  AI Recommendation
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ color: 'primary.main', fontStyle: 'italic', lineHeight: 1.6 }}>
+                {product.aiExplanation}
+              </Typography>
+            </Box>
+          )}
+
+          {attributeRows.length > 0 && (
+            <Box>
+              <Typography variant="h6" sx={{ fontWeight: 600, mb: 1 }}>
+                Specifications
+              </Typography>
+              <Table size="small">
+                <TableBody>
+                  {attributeRows.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell
+                        component="th"
+                        scope="row"
+                        colSpan={row.isGroup ? 2 : 1}
+                        sx={{
+                          fontWeight: row.isGroup ? 700 : 600,
+                          width: '40%',
+                          pl: 2 + row.depth * 2,
+                          color: row.isGroup ? 'primary.main' : 'text.primary',
+                        }}
+                      >
+                        {row.label}
+                      </TableCell>
+                      {!row.isGroup && <TableCell>{row.value}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          )}
+        </Box>
+      </Card>
+    </Container>
+  );
+};
+
+export default ProductDetail;
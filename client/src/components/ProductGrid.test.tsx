@@ -227,4 +227,95 @@ describe('ProductGrid', () => {
     // we'll just verify the components render correctly with the handler
     expect(productCards[0]).toBeInTheDocument();
   });
-}); 
\ No newline at end of file
+
+  describe('pagination', () => {
+    const pagination = {
+      page: 1,
+      limit: 3,
+      total: 9,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPrevPage: false
+    };
+
+    it('renders numbered pages and reports page changes', async () => {
+      const onPageChange = vi.fn();
+      const user = userEvent.setup();
+
+      render(
+        <ProductGrid
+          products={mockProducts}
+          pagination={pagination}
+          onPageChange={onPageChange}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /go to page 2/i }));
+
+      expect(onPageChange).toHaveBeenCalledWith(2);
+    });
+
+    it('does not render pagination for a single page', () => {
+      render(
+        <ProductGrid
+          products={mockProducts}
+          pagination={{ ...pagination, totalPages: 1, hasNextPage: false }}
+          onPageChange={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('navigation')).not.toBeInTheDocument();
+    });
+
+    it('renders a load more button in infinite mode', async () => {
+      const onLoadMore = vi.fn();
+      const user = userEvent.setup();
+
+      render(
+        <ProductGrid
+          products={mockProducts}
+          pagination={pagination}
+          paginationMode="infinite"
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /load more/i }));
+
+      expect(onLoadMore).toHaveBeenCalled();
+    });
+
+    it('shows the end of results in infinite mode when there are no more pages', () => {
+      render(
+        <ProductGrid
+          products={mockProducts}
+          pagination={{ ...pagination, page: 3, hasNextPage: false }}
+          paginationMode="infinite"
+          onLoadMore={vi.fn()}
+        />
+      );
+
+      expect(screen.queryByRole('button', { name: /load more/i })).not.toBeInTheDocument();
+      expect(screen.getByText(/reached the end/i)).toBeInTheDocument();
+    });
+
+    it('switches between pagination modes', async () => {
+      const onPaginationModeChange = vi.fn();
+      const user = userEvent.setup();
+
+      render(
+        <ProductGrid
+          products={mockProducts}
+          pagination={pagination}
+          onPageChange={vi.fn()}
+          onLoadMore={vi.fn()}
+          onPaginationModeChange={onPaginationModeChange}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /infinite scroll/i }));
+
+      expect(onPaginationModeChange).toHaveBeenCalledWith('infinite');
+    });
+  });
+});
@@ -1,15 +1,25 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import {
   Container,
   Typography,
   Box,
   Button,
-  Chip
+  Chip,
+  Pagination,
+  ToggleButton,
+  ToggleButtonGroup,
+  CircularProgress
 } from '@mui/material';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import TipsAndUpdatesIcon from '@mui/icons-material/TipsAndUpdates';
+import ViewModuleIcon from '@mui/icons-material/ViewModule';
+import AllInclusiveIcon from '@mui/icons-material/AllInclusive';
 import ProductCard from './ProductCard';
 import type { Product } from './ProductCard';
+import type { PaginationInfo } from '../services/api';
+
+// Numbered pages or a growing "load more" list
+export type PaginationMode = 'pages' | 'infinite';
 
 interface ProductGridProps {
   products: Product[];
@@ -17,8 +27,21 @@ interface ProductGridProps {
   title?: string;
   loading?: boolean;
   isFilteringSorting?: boolean;
+  onCancel?: () => void; // Cancels the running filter/sort request
   onRetry?: () => void;
   searchQuery?: string;
+  pagination?: PaginationInfo | null;
+  paginationMode?: PaginationMode;
+  onPaginationModeChange?: (mode: PaginationMode) => void;
+  onPageChange?: (page: number) => void;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  totalResults?: number; // Total matches across all pages
+  comparedIds?: string[];
+  onCompareToggle?: (product: Product) => void;
+  isCompareFull?: boolean;
+  savedIds?: string[];
+  onSaveToggle?: (product: Product) => void;
 }
 
 const ProductGrid: React.FC<ProductGridProps> = ({
@@ -27,9 +50,54 @@ const ProductGrid: React.FC<ProductGridProps> = ({
   title = "Products",
   loading = false,
   isFilteringSorting = false,
+  onCancel,
   onRetry,
-  searchQuery
+  searchQuery,
+  pagination,
+  paginationMode = 'pages',
+  onPaginationModeChange,
+  onPageChange,
+  onLoadMore,
+  isLoadingMore = false,
+  totalResults,
+  comparedIds = [],
+  onCompareToggle,
+  isCompareFull = false,
+  savedIds = [],
+  onSaveToggle
 }) => {
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+
+  // Rank scored products by relevance; numbered pages continue the ranking of earlier pages
+  const relevanceRanks = useMemo(() => {
+    const rankOffset = pagination && paginationMode === 'pages'
+      ? (pagination.page - 1) * pagination.limit
+      : 0;
+    const ranks = new Map<string, number>();
+    products
+      .filter(product => product.relevanceScore !== undefined)
+      .sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0))
+      .forEach((product, index) => ranks.set(product.id, rankOffset + index));
+    return ranks;
+  }, [products, pagination, paginationMode]);
+  const hasMorePages = !!pagination?.hasNextPage;
+  const isInfinite = paginationMode === 'infinite' && !!onLoadMore;
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!isInfinite || !hasMorePages || isLoadingMore || !sentinel) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore?.();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [isInfinite, hasMorePages, isLoadingMore, onLoadMore]);
+
   if (loading && !isFilteringSorting) {
     return (
       <Container maxWidth="xl" sx={{ px: { xs: 2, sm: 3, md: 4 } }}>
@@ -246,6 +314,11 @@ const ProductGrid: React.FC<ProductGridProps> = ({
               <Typography variant="body2" sx={{ fontWeight: 600, color: 'primary.main' }}>
                 🔍 Applying filters...
               </Typography>
+              {onCancel && (
+                <Button size="small" onClick={onCancel} sx={{ py: 0.5, px: 1.5 }}>
+                  Cancel
+                </Button>
+              )}
             </Box>
           </Box>
         )}
@@ -270,10 +343,73 @@ const ProductGrid: React.FC<ProductGridProps> = ({
               key={product.id}
               product={product}
               onClick={onProductClick}
+              rank={relevanceRanks.get(product.id)}
+              isCompared={comparedIds.includes(product.id)}
+              onCompareToggle={onCompareToggle}
+              compareDisabled={isCompareFull}
+              isSaved={savedIds.includes(product.id)}
+              onSaveToggle={onSaveToggle}
             />
           ))}
         </Box>
 
+        {/* Pagination Controls */}
+        {pagination && pagination.totalPages > 1 && (
+          <Box sx={{ mt: { xs: 4, sm: 5 }, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
+            {isInfinite ? (
+              hasMorePages ? (
+                <Box ref={loadMoreRef} sx={{ display: 'flex', justifyContent: 'center' }}>
+                  <Button
+                    variant="outlined"
+                    onClick={onLoadMore}
+                    disabled={isLoadingMore}
+                    startIcon={isLoadingMore ? <CircularProgress size={16} /> : undefined}
+                    sx={{ borderRadius: 3, textTransform: 'none', fontWeight: 600 }}
+                  >
+                    {isLoadingMore ? 'Loading more...' : 'Load more'}
+                  </Button>
+                </Box>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  You've reached the end of the results
+                </Typography>
+              )
+            ) : (
+              onPageChange && (
+                <Pagination
+                  count={pagination.totalPages}
+                  page={pagination.page}
+                  onChange={(_, page) => onPageChange(page)}
+                  color="primary"
+                  disabled={isFilteringSorting}
+                  sx={{
+                    '& .MuiPaginationItem-root': {
+                      borderRadius: 2
+                    }
+                  }}
+                />
+              )
+            )}
+
+            {onPaginationModeChange && onLoadMore && onPageChange && (
+              <ToggleButtonGroup
+                value={paginationMode}
+                exclusive
+                size="small"
+                onChange={(_, mode: PaginationMode | null) => mode && onPaginationModeChange(mode)}
+                aria-label="Pagination mode"
+              >
+                <ToggleButton value="pages" sx={{ textTransform: 'none', gap: 0.5 }}>
+                  <ViewModuleIcon fontSize="small" /> Pages
+                </ToggleButton>
+                <ToggleButton value="infinite" sx={{ textTransform: 'none', gap: 0.5 }}>
+                  <AllInclusiveIcon fontSize="small" /> Infinite scroll
+                </ToggleButton>
+              </ToggleButtonGroup>
+            )}
+          </Box>
+        )}
+
         {products.length > 0 && (
           <Box sx={{ 
             mt: { xs: 4, sm: 6 }, 
@@ -291,7 +427,7 @@ const ProductGrid: React.FC<ProductGridProps> = ({
                 fontSize: '1.1rem'
               }}
             >
-              ✨ Showing {products.length} amazing product{products.length !== 1 ? 's' : ''} just for you
+              ✨ Showing {products.length}{totalResults && totalResults > products.length ? ` of ${totalResults}` : ''} amazing product{products.length !== 1 ? 's' : ''} just for you
             </Typography>
           </Box>
         )}
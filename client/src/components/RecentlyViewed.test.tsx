@@ -0,0 +1,41 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import RecentlyViewed from './RecentlyViewed';
+import type { Product } from './ProductCard';
+
+const products: Product[] = [
+  { id: '1', name: 'Trail Runner', price: 89.99, description: '', image: 'https://example.com/1.jpg' },
+  { id: '2', name: 'Rain Jacket', price: 120, description: '', image: 'https://example.com/2.jpg' },
+];
+
+describe('RecentlyViewed', () => {
+  it('renders nothing without viewed products', () => {
+    const { container } = render(<RecentlyViewed products={[]} onProductClick={vi.fn()} onClear={vi.fn()} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists viewed products in order with their price', () => {
+    render(<RecentlyViewed products={products} onProductClick={vi.fn()} onClear={vi.fn()} />);
+
+    const items = within(screen.getByRole('region', { name: 'Recently viewed' })).getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(within(items[0]).getByText('Trail Runner')).toBeInTheDocument();
+    expect(within(items[0]).getByText('$89.99')).toBeInTheDocument();
+    expect(within(items[1]).getByText('Rain Jacket')).toBeInTheDocument();
+  });
+
+  it('opens a product and clears the list', async () => {
+    const user = userEvent.setup();
+    const onProductClick = vi.fn();
+    const onClear = vi.fn();
+    render(<RecentlyViewed products={products} onProductClick={onProductClick} onClear={onClear} />);
+
+    await user.click(screen.getByText('Rain Jacket'));
+    expect(onProductClick).toHaveBeenCalledWith(products[1]);
+
+    await user.click(screen.getByRole('button', { name: 'Clear all' }));
+    expect(onClear).toHaveBeenCalled();
+  });
+});
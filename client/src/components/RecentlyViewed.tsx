@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  Container,
+  Box,
+  Card,
+  CardActionArea,
+  CardMedia,
+  Typography,
+  Button
+} from '@mui/material';
+import { History as HistoryIcon } from '@mui/icons-material';
+import type { Product } from './ProductCard';
+
+interface RecentlyViewedProps {
+  products: Product[];
+  onProductClick: (product: Product) => void;
+  onClear: () => void;
+}
+
+const formatPrice = (price: number, currency = 'USD') => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(price);
+};
+
+// Horizontally scrolling rail of products the user opened before
+const RecentlyViewed: React.FC<RecentlyViewedProps> = ({ products, onProductClick, onClear }) => {
+  if (products.length === 0) return null;
+
+  return (
+    <Container maxWidth="xl" sx={{ px: { xs: 2, sm: 3, md: 4 }, pt: { xs: 3, sm: 4 } }}>
+      <Box component="section" aria-label="Recently viewed">
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1.5 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <HistoryIcon sx={{ color: 'primary.main' }} />
+            Recently viewed
+          </Typography>
+          <Button size="small" onClick={onClear} sx={{ px: 1.5, py: 0.5 }}>
+            Clear all
+          </Button>
+        </Box>
+
+        <Box
+          component="ul"
+          sx={{
+            display: 'flex',
+            gap: 2,
+            overflowX: 'auto',
+            scrollSnapType: 'x mandatory',
+            listStyle: 'none',
+            m: 0,
+            p: 0,
+            pb: 1,
+          }}
+        >
+          {products.map(product => (
+            <Box component="li" key={product.id} sx={{ flex: '0 0 auto', width: 160, scrollSnapAlign: 'start' }}>
+              <Card sx={{ borderRadius: 3, boxShadow: '0 4px 12px rgba(0, 0, 0, 0.08)', height: '100%' }}>
+                <CardActionArea onClick={() => onProductClick(product)} sx={{ height: '100%' }}>
+                  <CardMedia
+                    component="img"
+                    image={product.image}
+                    alt={product.name}
+                    sx={{ height: 100, objectFit: 'cover' }}
+                    onError={(e) => {
+                      // Fallback to a placeholder image if the image fails to load
+                      (e.target as HTMLImageElement).src = 'https://via.placeholder.com/160x100?text=No+Image';
+                    }}
+                  />
+                  <Box sx={{ p: 1.5 }}>
+                    <Typography
+                      variant="body2"
+                      sx={{
+                        fontWeight: 600,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        display: '-webkit-box',
+                        WebkitLineClamp: 2,
+                        WebkitBoxOrient: 'vertical',
+                      }}
+                    >
+                      {product.name}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: 'primary.main', fontWeight: 700 }}>
+                      {formatPrice(product.price, product.currency)}
+                    </Typography>
+                  </Box>
+                </CardActionArea>
+              </Card>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Container>
+  );
+};
+
+export default RecentlyViewed;
@@ -0,0 +1,46 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import SavedProducts from './SavedProducts';
+import type { Product } from './ProductCard';
+
+const savedProduct: Product = {
+  id: '3',
+  name: 'Espresso Machine',
+  price: 199,
+  description: 'Compact espresso machine.',
+  image: 'https://example.com/espresso.jpg',
+};
+
+describe('SavedProducts', () => {
+  it('shows an empty state when nothing is saved', () => {
+    render(<SavedProducts products={[]} isGuest={false} onSaveToggle={vi.fn()} />);
+
+    expect(screen.getByText('Saved Products (0)')).toBeInTheDocument();
+    expect(screen.getByText(/Nothing saved yet/)).toBeInTheDocument();
+  });
+
+  it('tells guests their list is kept on this device', () => {
+    render(<SavedProducts products={[savedProduct]} isGuest onSaveToggle={vi.fn()} />);
+
+    expect(screen.getByText(/Saved on this device/)).toBeInTheDocument();
+  });
+
+  it('lists saved products and lets them be removed', async () => {
+    const user = userEvent.setup();
+    const onSaveToggle = vi.fn();
+    render(<SavedProducts products={[savedProduct]} isGuest={false} onSaveToggle={onSaveToggle} />);
+
+    expect(screen.getByText('Espresso Machine')).toBeInTheDocument();
+    expect(screen.queryByText(/Saved on this device/)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Remove Espresso Machine from saved' }));
+    expect(onSaveToggle).toHaveBeenCalledWith(savedProduct);
+  });
+
+  it('shows when the account list could not be loaded', () => {
+    render(<SavedProducts products={[]} isGuest={false} error="Server error occurred." onSaveToggle={vi.fn()} />);
+
+    expect(screen.getByText('Server error occurred.')).toBeInTheDocument();
+  });
+});
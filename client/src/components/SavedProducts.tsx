@@ -0,0 +1,79 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import {
+  Favorite as FavoriteIcon,
+  FavoriteBorder as FavoriteBorderIcon
+} from '@mui/icons-material';
+import ProductGrid from './ProductGrid';
+import type { Product } from './ProductCard';
+
+interface SavedProductsProps {
+  products: Product[];
+  isGuest: boolean; // Saved on this device only
+  isSyncing?: boolean;
+  error?: string | null;
+  onProductClick?: (product: Product) => void;
+  onSaveToggle: (product: Product) => void;
+}
+
+const SavedProducts: React.FC<SavedProductsProps> = ({
+  products,
+  isGuest,
+  isSyncing = false,
+  error,
+  onProductClick,
+  onSaveToggle
+}) => {
+  return (
+    <Box>
+      <Card sx={{ borderRadius: { xs: 2, sm: 3 }, boxShadow: '0 4px 20px rgba(0,0,0,0.08)', mb: 3 }}>
+        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <FavoriteIcon sx={{ color: 'error.main' }} />
+            <Typography variant="h6" sx={{ fontWeight: 600 }}>
+              Saved Products ({products.length})
+            </Typography>
+            {isSyncing && <CircularProgress size={16} sx={{ ml: 1 }} aria-label="Syncing saved products" />}
+          </Box>
+          {isGuest && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Saved on this device. Sign in to keep them in your account.
+            </Typography>
+          )}
+          {error && (
+            <Alert severity="error" sx={{ mt: 2, borderRadius: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {products.length === 0 && !isSyncing && (
+            <Box sx={{ textAlign: 'center', py: 4 }}>
+              <FavoriteBorderIcon sx={{ fontSize: 48, color: 'text.disabled', mb: 1 }} />
+              <Typography variant="body1" color="text.secondary">
+                Nothing saved yet. Tap the heart on a product to save it for later.
+              </Typography>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      {products.length > 0 && (
+        <ProductGrid
+          products={products}
+          onProductClick={onProductClick}
+          title="❤️ Saved for later"
+          savedIds={products.map(product => product.id)}
+          onSaveToggle={onSaveToggle}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default SavedProducts;
@@ -0,0 +1,73 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi } from 'vitest';
+import SavedSearches from './SavedSearches';
+import type { SavedSearch } from '../utils/savedSearches';
+
+const savedSearch: SavedSearch = {
+  id: '1',
+  query: 'running shoes',
+  filters: { brand: 'Nike' },
+  sortBy: 'price_asc',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  lastRunAt: '2026-10-01T10:00:00.000Z',
+  lastResultIds: ['1', '2'],
+};
+
+const renderSavedSearches = (props: Partial<React.ComponentProps<typeof SavedSearches>> = {}) => {
+  const handlers = { onRun: vi.fn(), onRemove: vi.fn(), onCheckForChanges: vi.fn() };
+  render(
+    <SavedSearches
+      savedSearches={[savedSearch]}
+      newResultCounts={{}}
+      isChecking={false}
+      lastCheckedAt={null}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('SavedSearches', () => {
+  it('explains how to save a search when there are none', () => {
+    const { onCheckForChanges } = renderSavedSearches({ savedSearches: [] });
+
+    expect(screen.getByText(/pin a search with its filters and sort order/)).toBeInTheDocument();
+    expect(onCheckForChanges).not.toHaveBeenCalled();
+  });
+
+  it('lists saved searches with their filters and sort order', () => {
+    renderSavedSearches({ lastCheckedAt: '2026-10-01T11:00:00.000Z' });
+
+    expect(screen.getByText('running shoes')).toBeInTheDocument();
+    expect(screen.getByText('Brand: Nike')).toBeInTheDocument();
+    expect(screen.getByText('Sort: Price: Low to High')).toBeInTheDocument();
+  });
+
+  it('only checks for new results when asked', async () => {
+    const user = userEvent.setup();
+    const { onCheckForChanges } = renderSavedSearches();
+    expect(onCheckForChanges).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Check for new results' }));
+    expect(onCheckForChanges).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows how many results are new since the last run', () => {
+    renderSavedSearches({ newResultCounts: { '1': 3 }, lastCheckedAt: '2026-10-01T11:00:00.000Z' });
+
+    expect(screen.getByText('3 new/changed results since last run')).toBeInTheDocument();
+  });
+
+  it('re-runs and removes saved searches', async () => {
+    const user = userEvent.setup();
+    const { onRun, onRemove } = renderSavedSearches({ lastCheckedAt: '2026-10-01T11:00:00.000Z' });
+
+    await user.click(screen.getByRole('button', { name: 'Run' }));
+    expect(onRun).toHaveBeenCalledWith(savedSearch);
+
+    await user.click(screen.getByRole('button', { name: 'Remove saved search running shoes' }));
+    expect(onRemove).toHaveBeenCalledWith('1');
+  });
+});
@@ -0,0 +1,148 @@
+import React from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  IconButton,
+  Button,
+  Tooltip,
+  Stack,
+  CircularProgress
+} from '@mui/material';
+import {
+  PushPin as PinIcon,
+  PlayArrow as RunIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  FiberNew as NewIcon
+} from '@mui/icons-material';
+import { getFilterLabels, SORT_LABELS } from '../utils/filters';
+import type { SavedSearch } from '../utils/savedSearches';
+
+interface SavedSearchesProps {
+  savedSearches: SavedSearch[];
+  newResultCounts: Record<string, number>;
+  isChecking: boolean;
+  lastCheckedAt: string | null;
+  onRun: (search: SavedSearch) => void;
+  onRemove: (id: string) => void;
+  onCheckForChanges: () => void; // Runs every saved search again, so only on demand
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({
+  savedSearches,
+  newResultCounts,
+  isChecking,
+  lastCheckedAt,
+  onRun,
+  onRemove,
+  onCheckForChanges
+}) => {
+  return (
+    <Card sx={{ borderRadius: { xs: 2, sm: 3 }, boxShadow: '0 4px 20px rgba(0,0,0,0.08)', mb: 3 }}>
+      <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2 }}>
+          <Typography variant="h6" sx={{ fontWeight: 600, display: 'flex', alignItems: 'center', gap: 1 }}>
+            <PinIcon sx={{ color: 'primary.main' }} />
+            Saved Searches
+          </Typography>
+          {savedSearches.length > 0 && (
+            <Tooltip
+              title={`Check for new results (runs each saved search again)${lastCheckedAt ? ` · Last checked ${formatDate(lastCheckedAt)}` : ''}`}
+            >
+              <span>
+                <IconButton onClick={onCheckForChanges} disabled={isChecking} aria-label="Check for new results">
+                  {isChecking ? <CircularProgress size={20} /> : <RefreshIcon />}
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+        </Box>
+
+        {savedSearches.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Use "Save search" on your results to pin a search with its filters and sort order.
+          </Typography>
+        ) : (
+          <Stack spacing={1.5}>
+            {savedSearches.map(search => {
+              const newResults = newResultCounts[search.id] ?? 0;
+              const filterLabels = getFilterLabels(search.filters);
+
+              return (
+                <Box
+                  key={search.id}
+                  sx={{
+                    p: 2,
+                    borderRadius: 2,
+                    border: '1px solid',
+                    borderColor: newResults > 0 ? 'primary.main' : 'divider',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 2,
+                  }}
+                >
+                  <Box sx={{ flex: 1, minWidth: 0 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+                      <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                        {search.query}
+                      </Typography>
+                      {newResults > 0 && (
+                        <Chip
+                          icon={<NewIcon />}
+                          label={`${newResults} new/changed result${newResults !== 1 ? 's' : ''} since last run`}
+                          size="small"
+                          color="primary"
+                        />
+                      )}
+                    </Box>
+                    {(filterLabels.length > 0 || search.sortBy !== 'relevance') && (
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
+                        {filterLabels.map(({ key, label }) => (
+                          <Chip key={key} label={label} size="small" variant="outlined" />
+                        ))}
+                        {search.sortBy !== 'relevance' && (
+                          <Chip label={`Sort: ${SORT_LABELS[search.sortBy]}`} size="small" variant="outlined" />
+                        )}
+                      </Stack>
+                    )}
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+                      Last run {formatDate(search.lastRunAt)}
+                    </Typography>
+                  </Box>
+                  <Button
+                    size="small"
+                    variant="contained"
+                    startIcon={<RunIcon />}
+                    onClick={() => onRun(search)}
+                    sx={{ px: 1.5, py: 0.5, flexShrink: 0 }}
+                  >
+                    Run
+                  </Button>
+                  <Tooltip title="Remove saved search">
+                    <IconButton size="small" onClick={() => onRemove(search.id)} aria-label={`Remove saved search ${search.query}`}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              );
+            })}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,125 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SearchAnalytics from './SearchAnalytics';
+import type { SearchHistoryItem } from '../services/api';
+import { recordLocalSearch } from '../utils/localHistory';
+
+// One auth state for every render, so the effect only runs when a test changes it
+const authState: { isAuthenticated: boolean; isLoading: boolean; user: { id: number } | null } = {
+  isAuthenticated: true,
+  isLoading: false,
+  user: { id: 1 },
+};
+
+vi.mock('../context/AuthContext', () => ({
+  useAuth: () => ({ state: authState }),
+}));
+
+vi.mock('../services/api', () => ({
+  searchHistoryApi: {
+    getAllHistory: vi.fn(),
+  },
+  apiUtils: {
+    isCancelledError: () => false,
+  },
+}));
+
+import { searchHistoryApi } from '../services/api';
+
+let nextId = 1;
+const entry = (overrides: Partial<SearchHistoryItem>): SearchHistoryItem => ({
+  id: nextId++,
+  query: 'running shoes',
+  resultsCount: 12,
+  executionTimeMs: 200,
+  success: true,
+  errorType: null,
+  filters: {},
+  sortBy: null,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('SearchAnalytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    Object.assign(authState, { isAuthenticated: true, isLoading: false, user: { id: 1 } });
+  });
+
+  it('summarizes the history of the selected period', async () => {
+    vi.mocked(searchHistoryApi.getAllHistory).mockResolvedValue([
+      entry({}),
+      entry({ query: 'purple boots', resultsCount: 0, executionTimeMs: 400 }),
+      entry({ query: 'gold laptop', success: false, resultsCount: 0, errorType: 'TIMEOUT', executionTimeMs: 600 }),
+      entry({ query: 'desk', executionTimeMs: 800 }),
+    ]);
+    render(<SearchAnalytics />);
+
+    expect(await screen.findByText('75%')).toBeInTheDocument(); // Success rate
+    expect(screen.getByText('Searches').previousSibling).toHaveTextContent('4');
+    expect(screen.getByText('500ms')).toBeInTheDocument(); // Average latency
+    expect(screen.getByRole('img', { name: 'Searches per day' })).toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Success rate over time' })).toBeInTheDocument();
+    expect(screen.getByText('p50')).toBeInTheDocument();
+    expect(screen.getByText('"purple boots"')).toBeInTheDocument();
+    expect(screen.queryByText('"gold laptop"')).not.toBeInTheDocument();
+    expect(screen.getByText('Timed out')).toBeInTheDocument();
+    expect(searchHistoryApi.getAllHistory).toHaveBeenCalledWith(
+      { startDate: expect.any(String) },
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+
+  it('searches a zero-result query again', async () => {
+    const user = userEvent.setup();
+    const onSearchSelect = vi.fn();
+    vi.mocked(searchHistoryApi.getAllHistory).mockResolvedValue([entry({ query: 'purple boots', resultsCount: 0 })]);
+    render(<SearchAnalytics onSearchSelect={onSearchSelect} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Search "purple boots" again' }));
+
+    expect(onSearchSelect).toHaveBeenCalledWith('purple boots');
+  });
+
+  it('waits for the session check before loading', () => {
+    authState.isLoading = true;
+    render(<SearchAnalytics />);
+
+    expect(searchHistoryApi.getAllHistory).not.toHaveBeenCalled();
+  });
+
+  it('summarizes the searches stored on this device while signed out', async () => {
+    Object.assign(authState, { isAuthenticated: false, user: null });
+    recordLocalSearch({
+      query: 'desk lamp',
+      resultsCount: 3,
+      executionTimeMs: 150,
+      success: true,
+      errorType: null,
+      filters: {},
+      sortBy: 'relevance',
+    });
+    render(<SearchAnalytics />);
+
+    expect(await screen.findByRole('img', { name: 'Searches per day' })).toBeInTheDocument();
+    expect(screen.getByText('Searches').previousSibling).toHaveTextContent('1');
+    expect(searchHistoryApi.getAllHistory).not.toHaveBeenCalled();
+  });
+
+  it('shows an empty state without searches', async () => {
+    vi.mocked(searchHistoryApi.getAllHistory).mockResolvedValue([]);
+    render(<SearchAnalytics />);
+
+    expect(await screen.findByText('No searches in this period')).toBeInTheDocument();
+  });
+
+  it('shows an error when the history cannot be loaded', async () => {
+    vi.mocked(searchHistoryApi.getAllHistory).mockRejectedValue(new Error('Network Error'));
+    render(<SearchAnalytics />);
+
+    expect(await screen.findByText('Failed to load search analytics')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Chip,
+  IconButton,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+  Alert,
+  Skeleton,
+  Tooltip,
+  Stack,
+  LinearProgress
+} from '@mui/material';
+import {
+  Insights as InsightsIcon,
+  Refresh as RefreshIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import { searchHistoryApi, apiUtils, type SearchHistoryItem } from '../services/api';
+import { useAuth } from '../context/AuthContext';
+import { localHistoryApi, type HistorySource } from '../utils/localHistory';
+import {
+  getDailyStats,
+  getErrorBreakdown,
+  getLatencyPercentiles,
+  getTopZeroResultQueries,
+  summarizeHistory
+} from '../utils/historyAnalytics';
+import BarChart from './BarChart';
+import LineChart from './LineChart';
+
+interface SearchAnalyticsProps {
+  onSearchSelect?: (query: string) => void;
+}
+
+const formatPercent = (value: number | null) => (value === null ? '–' : `${Math.round(value * 100)}%`);
+
+const formatMs = (value: number | null) => (value === null ? '–' : `${value}ms`);
+
+// "2026-10-08" -> "Oct 8"
+const formatDay = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const sectionSx = {
+  p: { xs: 1.5, sm: 2 },
+  borderRadius: 2,
+  border: '1px solid rgba(102, 126, 234, 0.15)',
+  background: 'rgba(102, 126, 234, 0.03)'
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <Typography variant="subtitle2" component="h3" sx={{ fontWeight: 600, mb: 1.5 }}>
+    {children}
+  </Typography>
+);
+
+// Personal statistics computed from the search history of the account, or
+// of this device while signed out
+const SearchAnalytics: React.FC<SearchAnalyticsProps> = ({ onSearchSelect }) => {
+  const [items, setItems] = useState<SearchHistoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState(30);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { state: authState } = useAuth();
+  const userId = authState.user?.id ?? null;
+  const historySource: HistorySource = authState.isAuthenticated ? searchHistoryApi : localHistoryApi;
+
+  const fetchHistory = useCallback(async () => {
+    // Wait for the session check, so a signed-in user never sees the device history first
+    if (authState.isLoading) return;
+
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const now = new Date();
+      const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (period - 1));
+      setItems(await historySource.getAllHistory({ startDate: start.toISOString() }, { signal: controller.signal }));
+    } catch (err) {
+      if (apiUtils.isCancelledError(err)) return;
+      console.error('Error fetching search analytics:', err);
+      setError('Failed to load search analytics');
+    } finally {
+      if (controllerRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  }, [authState.isLoading, historySource, period]);
+
+  // Reload when the period changes or another user signs in or out
+  useEffect(() => {
+    fetchHistory();
+    return () => controllerRef.current?.abort();
+  }, [fetchHistory, userId]);
+
+  const summary = summarizeHistory(items);
+  const daily = getDailyStats(items, { days: period });
+  const percentiles = getLatencyPercentiles(items);
+  const zeroResultQueries = getTopZeroResultQueries(items);
+  const errors = getErrorBreakdown(items);
+
+  const stats = [
+    { label: 'Searches', value: String(summary.total) },
+    { label: 'Success rate', value: formatPercent(summary.successRate) },
+    { label: 'Zero results', value: formatPercent(summary.zeroResultRate) },
+    { label: 'Avg. latency', value: formatMs(summary.averageLatencyMs) },
+  ];
+
+  return (
+    <Card sx={{
+      borderRadius: { xs: 2, sm: 3, md: 4 },
+      boxShadow: '0 8px 32px rgba(0,0,0,0.1)',
+      background: 'rgba(255, 255, 255, 0.95)',
+      backdropFilter: 'blur(20px)',
+      width: '100%'
+    }}>
+      <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+        {/* Header */}
+        <Box sx={{
+          display: 'flex',
+          flexDirection: { xs: 'column', sm: 'row' },
+          alignItems: { xs: 'flex-start', sm: 'center' },
+          justifyContent: 'space-between',
+          gap: 2,
+          mb: { xs: 2, sm: 3 }
+        }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: { xs: 1, sm: 2 }, flexWrap: 'wrap' }}>
+            <InsightsIcon sx={{ color: 'primary.main', fontSize: { xs: '1.2rem', sm: '1.5rem' } }} />
+            <Typography
+              variant="h6"
+              sx={{
+                fontWeight: 600,
+                fontSize: { xs: '1.1rem', sm: '1.25rem' }
+              }}
+            >
+              Search Insights
+            </Typography>
+            <Chip
+              label="👤 Personal"
+              size="small"
+              sx={{
+                background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.1) 0%, rgba(56, 142, 60, 0.1) 100%)',
+                border: '1px solid rgba(76, 175, 80, 0.3)',
+                fontSize: { xs: '0.65rem', sm: '0.75rem' },
+                color: 'success.main',
+                fontWeight: 600
+              }}
+            />
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: { xs: '100%', sm: 'auto' } }}>
+            <FormControl size="small" sx={{ minWidth: 160, flex: { xs: 1, sm: 'unset' } }}>
+              <InputLabel id="analytics-period-label">Time Period</InputLabel>
+              <Select
+                labelId="analytics-period-label"
+                value={period}
+                label="Time Period"
+                onChange={(e) => setPeriod(Number(e.target.value))}
+              >
+                <MenuItem value={7}>Last 7 days</MenuItem>
+                <MenuItem value={30}>Last 30 days</MenuItem>
+                <MenuItem value={90}>Last 3 months</MenuItem>
+              </Select>
+            </FormControl>
+            <Tooltip title="Refresh">
+              <IconButton onClick={fetchHistory} size="small" aria-label="Refresh insights">
+                <RefreshIcon sx={{ fontSize: { xs: '1.1rem', sm: '1.25rem' } }} />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Box>
+
+        {/* Error State */}
+        {error && (
+          <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Stack spacing={2}>
+            <Skeleton variant="rectangular" height={72} sx={{ borderRadius: 2 }} />
+            <Skeleton variant="rectangular" height={160} sx={{ borderRadius: 2 }} />
+            <Skeleton variant="rectangular" height={160} sx={{ borderRadius: 2 }} />
+          </Stack>
+        ) : !error && items.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 6, color: 'text.secondary' }}>
+            <InsightsIcon sx={{ fontSize: 48, mb: 2, opacity: 0.5 }} />
+            <Typography variant="h6" sx={{ mb: 1 }}>
+              No searches in this period
+            </Typography>
+            <Typography variant="body2">
+              Your insights will appear here once you start searching
+            </Typography>
+          </Box>
+        ) : !error && (
+          <Stack spacing={2}>
+            {/* Summary */}
+            <Box sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' },
+              gap: { xs: 1, sm: 2 }
+            }}>
+              {stats.map(stat => (
+                <Box key={stat.label} sx={{ ...sectionSx, textAlign: 'center' }}>
+                  <Typography variant="h5" sx={{ fontWeight: 700, color: 'primary.main' }}>
+                    {stat.value}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {stat.label}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+              <Box sx={sectionSx}>
+                <SectionTitle>Searches per day</SectionTitle>
+                <BarChart
+                  ariaLabel="Searches per day"
+                  points={daily.map(day => ({ label: formatDay(day.date), value: day.searches }))}
+                  formatValue={(value) => `${value} search${value !== 1 ? 'es' : ''}`}
+                />
+              </Box>
+              <Box sx={sectionSx}>
+                <SectionTitle>Success rate over time</SectionTitle>
+                <LineChart
+                  ariaLabel="Success rate over time"
+                  points={daily.map(day => ({ label: formatDay(day.date), value: day.successRate }))}
+                  max={1}
+                  formatValue={(value) => formatPercent(value)}
+                />
+              </Box>
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2 }}>
+              {/* Latency */}
+              <Box sx={sectionSx}>
+                <SectionTitle>Latency percentiles</SectionTitle>
+                <Stack spacing={1}>
+                  {percentiles.map(({ percentile, ms }) => (
+                    <Box key={percentile} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                      <Typography variant="body2" color="text.secondary">p{percentile}</Typography>
+                      <Typography variant="body2" sx={{ fontWeight: 600 }}>{formatMs(ms)}</Typography>
+                    </Box>
+                  ))}
+                </Stack>
+              </Box>
+
+              {/* Zero-result queries */}
+              <Box sx={sectionSx}>
+                <SectionTitle>Top zero-result queries</SectionTitle>
+                {zeroResultQueries.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Every search found something
+                  </Typography>
+                ) : (
+                  <Stack spacing={0.5} component="ol" sx={{ m: 0, p: 0, listStyle: 'none' }}>
+                    {zeroResultQueries.map(item => (
+                      <Box
+                        component="li"
+                        key={item.query}
+                        sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}
+                      >
+                        <Typography variant="body2" noWrap title={item.query}>
+                          "{item.query}"
+                        </Typography>
+                        <Box sx={{ display: 'flex', alignItems: 'center', flexShrink: 0 }}>
+                          <Chip label={`${item.count}×`} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                          {onSearchSelect && (
+                            <Tooltip title="Search again">
+                              <IconButton
+                                size="small"
+                                onClick={() => onSearchSelect(item.query)}
+                                aria-label={`Search "${item.query}" again`}
+                              >
+                                <SearchIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </Box>
+                      </Box>
+                    ))}
+                  </Stack>
+                )}
+              </Box>
+
+              {/* Errors */}
+              <Box sx={sectionSx}>
+                <SectionTitle>Errors by type</SectionTitle>
+                {errors.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    No failed searches
+                  </Typography>
+                ) : (
+                  <Stack spacing={1.25}>
+                    {errors.map(({ errorType, title, count, share }) => (
+                      <Box key={errorType}>
+                        <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                          <Typography variant="body2" title={errorType}>{title}</Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {count} ({formatPercent(share)})
+                          </Typography>
+                        </Box>
+                        <LinearProgress
+                          variant="determinate"
+                          value={share * 100}
+                          color="error"
+                          aria-label={`${title} share of failed searches`}
+                          sx={{ height: 6, borderRadius: 3 }}
+                        />
+                      </Box>
+                    ))}
+                  </Stack>
+                )}
+              </Box>
+            </Box>
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SearchAnalytics;
@@ -125,6 +125,21 @@ describe('SearchBar', () => {
     expect(mockOnSearch).toHaveBeenCalledWith('test query');
   });
 
+  it('shows the query of the current results and follows it', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<SearchBar onSearch={mockOnSearch} value="laptop" />);
+    const input = screen.getByPlaceholderText('Search products...');
+    expect(input).toHaveValue('laptop');
+
+    await user.clear(input);
+    await user.type(input, 'lap');
+    rerender(<SearchBar onSearch={mockOnSearch} value="headphones" />);
+    expect(input).toHaveValue('headphones');
+
+    rerender(<SearchBar onSearch={mockOnSearch} value="" />);
+    expect(input).toHaveValue('');
+  });
+
   it('has proper form structure', () => {
     render(<SearchBar onSearch={mockOnSearch} />);
     
@@ -135,4 +150,59 @@ describe('SearchBar', () => {
     expect(input).toBeInTheDocument();
     expect(form).toContainElement(input);
   });
-}); 
\ No newline at end of file
+
+  describe('autocomplete', () => {
+    const suggestions = [
+      { text: 'wireless headphones', source: 'history' as const },
+      { text: 'wireless mouse', source: 'popular' as const },
+      { text: 'Wireless Charger Pad', source: 'product' as const },
+    ];
+
+    it('shows debounced suggestions with highlighted matches', async () => {
+      const user = userEvent.setup();
+      const getSuggestions = vi.fn().mockResolvedValue(suggestions);
+      render(<SearchBar onSearch={mockOnSearch} getSuggestions={getSuggestions} />);
+
+      await user.type(screen.getByRole('combobox'), 'wire');
+
+      const options = await screen.findAllByRole('option');
+      expect(options).toHaveLength(3);
+      expect(getSuggestions).toHaveBeenCalledTimes(1);
+      expect(getSuggestions).toHaveBeenCalledWith('wire', expect.any(AbortSignal));
+      expect(screen.getByRole('combobox')).toHaveAttribute('aria-expanded', 'true');
+      expect(options[2].querySelector('mark')).toHaveTextContent('Wire');
+    });
+
+    it('supports arrow keys and Enter to pick a suggestion', async () => {
+      const user = userEvent.setup();
+      render(<SearchBar onSearch={mockOnSearch} getSuggestions={vi.fn().mockResolvedValue(suggestions)} />);
+
+      const input = screen.getByRole('combobox');
+      await user.type(input, 'wire');
+      await screen.findAllByRole('option');
+
+      await user.keyboard('{ArrowDown}{ArrowDown}');
+      const active = screen.getAllByRole('option')[1];
+      expect(active).toHaveAttribute('aria-selected', 'true');
+      expect(input).toHaveAttribute('aria-activedescendant', active.id);
+
+      await user.keyboard('{Enter}');
+      expect(mockOnSearch).toHaveBeenCalledWith('wireless mouse');
+      expect(mockOnSearch).toHaveBeenCalledTimes(1);
+      expect(input).toHaveValue('wireless mouse');
+      expect(screen.queryByRole('option')).not.toBeInTheDocument();
+    });
+
+    it('closes the suggestions on Escape', async () => {
+      const user = userEvent.setup();
+      render(<SearchBar onSearch={mockOnSearch} getSuggestions={vi.fn().mockResolvedValue(suggestions)} />);
+
+      await user.type(screen.getByRole('combobox'), 'wire');
+      await screen.findAllByRole('option');
+
+      await user.keyboard('{Escape}');
+      expect(screen.queryByRole('option')).not.toBeInTheDocument();
+      expect(screen.getByRole('combobox')).toHaveAttribute('aria-expanded', 'false');
+    });
+  });
+}); 
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useId } from 'react';
 import { 
   Box, 
   TextField, 
@@ -12,18 +12,70 @@ import {
 import SearchIcon from '@mui/icons-material/Search';
 import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
 import TipsAndUpdatesIcon from '@mui/icons-material/TipsAndUpdates';
+import HistoryIcon from '@mui/icons-material/History';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import Inventory2Icon from '@mui/icons-material/Inventory2';
+import type { SearchSuggestion, SuggestionSource } from '../services/suggestions';
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGESTION_DEBOUNCE_MS = 250;
+const MIN_SUGGESTION_LENGTH = 2;
+
+const SOURCE_ICONS: Record<SuggestionSource, React.ReactElement> = {
+  history: <HistoryIcon fontSize="small" />,
+  popular: <TrendingUpIcon fontSize="small" />,
+  product: <Inventory2Icon fontSize="small" />,
+};
+
+const SOURCE_LABELS: Record<SuggestionSource, string> = {
+  history: 'Recent',
+  popular: 'Popular',
+  product: 'Product',
+};
+
+// Wrap case-insensitive occurrences of the query in <mark>
+const highlightMatches = (text: string, query: string): React.ReactNode => {
+  const trimmed = query.trim();
+  if (!trimmed) return text;
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.split(new RegExp(`(${escaped})`, 'gi')).map((part, index) =>
+    part.toLowerCase() === trimmed.toLowerCase() ? (
+      <Box
+        component="mark"
+        key={index}
+        sx={{ backgroundColor: 'transparent', color: 'primary.main', fontWeight: 700 }}
+      >
+        {part}
+      </Box>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+};
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  value?: string; // Query of the shown results; the box follows it on refresh, shared links and back/forward
   placeholder?: string;
+  getSuggestions?: (query: string, signal: AbortSignal) => Promise<SearchSuggestion[]>;
 }
 
 const SearchBar: React.FC<SearchBarProps> = ({ 
   onSearch, 
-  placeholder = "Search products..." 
+  value = '',
+  placeholder = "Search products...",
+  getSuggestions
 }) => {
-  const [query, setQuery] = useState('');
+  const [query, setQuery] = useState(value);
   const [focused, setFocused] = useState(false);
+
+  // Autocomplete state
+  const [autocomplete, setAutocomplete] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isListOpen, setIsListOpen] = useState(false);
+  const listboxId = useId();
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
   const [suggestions] = useState([
     "Laptop",
     "Headphones",
@@ -33,15 +85,87 @@ const SearchBar: React.FC<SearchBarProps> = ({
     "Watch"
   ]);
 
+  useEffect(() => {
+    setQuery(value);
+    setIsListOpen(false);
+    setActiveIndex(-1);
+  }, [value]);
+
+  // Fetch suggestions once typing pauses; a newer query cancels the previous request
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!getSuggestions || trimmed.length < MIN_SUGGESTION_LENGTH) {
+      setAutocomplete([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      getSuggestions(trimmed, controller.signal)
+        .then(results => {
+          if (controller.signal.aborted) return;
+          setAutocomplete(results);
+          setActiveIndex(-1);
+        })
+        .catch(err => {
+          console.warn('Could not load suggestions:', err);
+        });
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, getSuggestions]);
+
+  const showAutocomplete = focused && isListOpen && !!query.trim() && autocomplete.length > 0;
+
+  const closeAutocomplete = () => {
+    setIsListOpen(false);
+    setActiveIndex(-1);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
+      closeAutocomplete();
       onSearch(query.trim());
     }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
+    setIsListOpen(true);
+  };
+
+  const selectSuggestion = (suggestion: string) => {
+    setQuery(suggestion);
+    closeAutocomplete();
+    onSearch(suggestion);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!showAutocomplete) {
+      if (e.key === 'ArrowDown' && autocomplete.length > 0) {
+        e.preventDefault();
+        setIsListOpen(true);
+      }
+      return;
+    }
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % autocomplete.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? autocomplete.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      selectSuggestion(autocomplete[activeIndex].text);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      closeAutocomplete();
+    }
   };
 
   return (
@@ -69,8 +193,16 @@ const SearchBar: React.FC<SearchBarProps> = ({
           placeholder={placeholder}
           value={query}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
           onFocus={() => setFocused(true)}
           onBlur={() => setTimeout(() => setFocused(false), 200)}
+          inputProps={{
+            role: 'combobox',
+            'aria-autocomplete': 'list',
+            'aria-expanded': showAutocomplete,
+            'aria-controls': listboxId,
+            'aria-activedescendant': showAutocomplete && activeIndex >= 0 ? getOptionId(activeIndex) : undefined,
+          }}
           InputProps={{
             startAdornment: (
               <InputAdornment position="start">
@@ -115,6 +247,63 @@ const SearchBar: React.FC<SearchBarProps> = ({
           }}
         />
 
+        {/* Autocomplete Suggestions */}
+        <Paper
+          id={listboxId}
+          role="listbox"
+          aria-label="Search suggestions"
+          component="ul"
+          sx={{
+            display: showAutocomplete ? 'block' : 'none',
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            right: 0,
+            mt: 1,
+            py: 1,
+            px: 0,
+            listStyle: 'none',
+            zIndex: 1000,
+            background: 'rgba(255, 255, 255, 0.98)',
+            border: '1px solid rgba(102, 126, 234, 0.2)',
+            borderRadius: 3,
+            boxShadow: '0 12px 40px rgba(0, 0, 0, 0.15)',
+          }}
+        >
+          {showAutocomplete && autocomplete.map((suggestion, index) => (
+            <Box
+              component="li"
+              key={`${suggestion.source}-${suggestion.text}`}
+              id={getOptionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()} // Keep focus in the input
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => selectSuggestion(suggestion.text)}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1.5,
+                px: 2,
+                py: 1,
+                cursor: 'pointer',
+                color: 'text.primary',
+                backgroundColor: index === activeIndex ? 'rgba(102, 126, 234, 0.1)' : 'transparent',
+              }}
+            >
+              <Box sx={{ display: 'flex', color: 'text.secondary' }}>
+                {SOURCE_ICONS[suggestion.source]}
+              </Box>
+              <Typography variant="body1" sx={{ flexGrow: 1 }} noWrap>
+                {highlightMatches(suggestion.text, query)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {SOURCE_LABELS[suggestion.source]}
+              </Typography>
+            </Box>
+          ))}
+        </Paper>
+
         {/* Search Suggestions */}
         <Fade in={focused && !query}>
           <Paper
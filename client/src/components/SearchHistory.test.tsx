@@ -0,0 +1,451 @@
+import { render, screen, act, fireEvent, within, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+import SearchHistory from './SearchHistory';
+import type { SearchHistoryItem } from '../services/api';
+
+// One auth state for every render, so the sign-in effect does not refetch on each update
+const authState = { isAuthenticated: true, isLoading: false, user: { id: 1 } };
+
+vi.mock('../context/AuthContext', () => ({
+  useAuth: () => ({ state: authState }),
+}));
+
+vi.mock('../services/api', () => ({
+  searchHistoryApi: {
+    getHistory: vi.fn(),
+    getAllHistory: vi.fn(),
+    deleteHistoryItem: vi.fn(),
+    deleteHistoryItems: vi.fn(),
+    clearHistory: vi.fn(),
+  },
+  productApi: {
+    aiSearch: vi.fn(),
+  },
+  apiUtils: {
+    isCancelledError: (err: unknown) => err instanceof Error && err.name === 'CanceledError',
+    getErrorMessage: () => 'Request timed out. Please check your connection.',
+  },
+}));
+
+vi.mock('../utils/historyExport', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/historyExport')>(),
+  downloadHistoryExport: vi.fn(),
+}));
+
+import { productApi, searchHistoryApi, type SearchResult } from '../services/api';
+import { downloadHistoryExport } from '../utils/historyExport';
+import { readLocalHistory, recordLocalSearch } from '../utils/localHistory';
+
+const historyItem: SearchHistoryItem = {
+  id: 1,
+  query: 'running shoes',
+  resultsCount: 12,
+  executionTimeMs: 850,
+  success: true,
+  errorType: null,
+  filters: { brand: 'Nike', maxPrice: 120 },
+  sortBy: 'price_asc',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+};
+
+const mockHistory = (items: SearchHistoryItem[]) => {
+  vi.mocked(searchHistoryApi.getHistory).mockResolvedValue({
+    success: true,
+    data: items,
+    pagination: { page: 1, limit: 10, total: items.length, totalPages: 1, hasNextPage: false, hasPrevPage: false },
+  });
+};
+
+// Shows the current query string so tests can check what ends up in the URL
+const LocationDisplay = () => {
+  const location = useLocation();
+  return <div data-testid="location">{location.search}</div>;
+};
+
+const renderHistory = (props: React.ComponentProps<typeof SearchHistory> = {}, url = '/?tab=history') => {
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <SearchHistory {...props} />
+      <LocationDisplay />
+    </MemoryRouter>
+  );
+};
+
+describe('SearchHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('shows the filters and sort order of each search', async () => {
+    mockHistory([historyItem]);
+    renderHistory();
+
+    expect(await screen.findByText('"running shoes"')).toBeInTheDocument();
+    expect(screen.getByText('Brand: Nike')).toBeInTheDocument();
+    expect(screen.getByText('Max: $120')).toBeInTheDocument();
+    expect(screen.getByText('Price: Low to High')).toBeInTheDocument();
+  });
+
+  it('re-runs a search with its original filters and sort order', async () => {
+    const user = userEvent.setup();
+    const onSearchSelect = vi.fn();
+    mockHistory([historyItem]);
+    renderHistory({ onSearchSelect });
+
+    await user.click(await screen.findByText('"running shoes"'));
+
+    expect(onSearchSelect).toHaveBeenCalledWith({
+      query: 'running shoes',
+      filters: { brand: 'Nike', maxPrice: 120 },
+      sortBy: 'price_asc',
+    });
+  });
+
+  it('can run the query with the current filters instead', async () => {
+    const user = userEvent.setup();
+    const onSearchSelect = vi.fn();
+    const onSearchWithCurrentFilters = vi.fn();
+    mockHistory([historyItem]);
+    renderHistory({ onSearchSelect, onSearchWithCurrentFilters });
+
+    await user.click(await screen.findByRole('button', { name: 'Run with current filters' }));
+
+    expect(onSearchWithCurrentFilters).toHaveBeenCalledWith('running shoes');
+    expect(onSearchSelect).not.toHaveBeenCalled();
+  });
+
+  it('loads the date range from the URL', async () => {
+    mockHistory([historyItem]);
+    renderHistory({}, '/?tab=history&range=custom&from=2026-10-01&to=2026-10-07');
+
+    expect(await screen.findByText('2026-10-01 – 2026-10-07')).toBeInTheDocument();
+    expect(searchHistoryApi.getHistory).toHaveBeenLastCalledWith(expect.objectContaining({
+      startDate: new Date(2026, 9, 1).toISOString(),
+      endDate: new Date(2026, 9, 7, 23, 59, 59, 999).toISOString(),
+    }));
+  });
+
+  it('filters by a date preset and keeps it in the URL', async () => {
+    const user = userEvent.setup();
+    mockHistory([historyItem]);
+    renderHistory();
+
+    await user.click(await screen.findByRole('button', { name: 'Filters' }));
+    await user.click(screen.getByRole('button', { name: 'Last 7 days' }));
+
+    expect(screen.getByTestId('location')).toHaveTextContent('?tab=history&range=7d');
+    expect(searchHistoryApi.getHistory).toHaveBeenLastCalledWith(expect.objectContaining({
+      startDate: expect.any(String),
+      page: 1,
+    }));
+
+    // Removing the range chip shows all searches again
+    await user.click(screen.getByTestId('CancelIcon'));
+    expect(screen.getByTestId('location')).toHaveTextContent('?tab=history');
+    expect(screen.getByTestId('location')).not.toHaveTextContent('range');
+  });
+
+  describe('deleting', () => {
+    const otherItem: SearchHistoryItem = {
+      ...historyItem,
+      id: 2,
+      query: 'trail boots',
+      createdAt: '2026-09-30T10:00:00.000Z',
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    // Runs out the undo period of the last deletion
+    const expireUndo = () => {
+      act(() => {
+        vi.advanceTimersByTime(6000);
+      });
+      vi.useRealTimers();
+    };
+
+    it('removes a search right away and deletes it once undo has expired', async () => {
+      vi.mocked(searchHistoryApi.deleteHistoryItem).mockResolvedValue({ success: true, deletedCount: 1 });
+      mockHistory([historyItem, otherItem]);
+      renderHistory();
+
+      const deleteButton = await screen.findByRole('button', { name: 'Delete "running shoes"' });
+      vi.useFakeTimers();
+      fireEvent.click(deleteButton);
+
+      expect(screen.queryByText('"running shoes"')).not.toBeInTheDocument();
+      expect(screen.getByText('Deleted "running shoes"')).toBeInTheDocument();
+      expect(searchHistoryApi.deleteHistoryItem).not.toHaveBeenCalled();
+
+      expireUndo();
+
+      expect(searchHistoryApi.deleteHistoryItem).toHaveBeenCalledWith(1);
+    });
+
+    it('restores a search when the deletion is undone', async () => {
+      mockHistory([historyItem, otherItem]);
+      renderHistory();
+
+      const deleteButton = await screen.findByRole('button', { name: 'Delete "running shoes"' });
+      vi.useFakeTimers();
+      fireEvent.click(deleteButton);
+      fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+      expect(screen.getByText('"running shoes"')).toBeInTheDocument();
+
+      expireUndo();
+
+      expect(searchHistoryApi.deleteHistoryItem).not.toHaveBeenCalled();
+    });
+
+    it('puts the searches back when the deletion fails', async () => {
+      const user = userEvent.setup();
+      vi.mocked(searchHistoryApi.deleteHistoryItems).mockRejectedValue(new Error('Network Error'));
+      mockHistory([historyItem, otherItem]);
+      renderHistory();
+
+      await user.click(await screen.findByRole('checkbox', { name: 'Select "running shoes"' }));
+      await user.click(screen.getByRole('checkbox', { name: 'Select "trail boots"' }));
+      await user.click(screen.getByRole('button', { name: 'Delete selected (2)' }));
+      vi.useFakeTimers();
+      fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+      expect(screen.queryByText('"running shoes"')).not.toBeInTheDocument();
+      expect(screen.queryByText('"trail boots"')).not.toBeInTheDocument();
+
+      expireUndo();
+
+      expect(searchHistoryApi.deleteHistoryItems).toHaveBeenCalledWith([1, 2]);
+      expect(await screen.findByText('"running shoes"')).toBeInTheDocument();
+      expect(screen.getByText('"trail boots"')).toBeInTheDocument();
+      expect(screen.getByText(/Failed to delete search history/)).toBeInTheDocument();
+    });
+
+    it('asks for confirmation before clearing all history', async () => {
+      const user = userEvent.setup();
+      vi.mocked(searchHistoryApi.clearHistory).mockResolvedValue({ success: true, deletedCount: 2 });
+      mockHistory([historyItem, otherItem]);
+      renderHistory();
+
+      await user.click(await screen.findByRole('button', { name: 'Clear all history' }));
+      expect(screen.getByText('Clear all search history?')).toBeInTheDocument();
+
+      vi.useFakeTimers();
+      fireEvent.click(screen.getByRole('button', { name: 'Clear all' }));
+
+      expect(screen.getByText('Search history cleared')).toBeInTheDocument();
+      expect(screen.queryByText('"running shoes"')).not.toBeInTheDocument();
+      expect(searchHistoryApi.clearHistory).not.toHaveBeenCalled();
+
+      mockHistory([]);
+      expireUndo();
+
+      expect(searchHistoryApi.clearHistory).toHaveBeenCalled();
+    });
+  });
+
+  describe('exporting', () => {
+    it('downloads every entry of the filtered history', async () => {
+      const user = userEvent.setup();
+      const all = [historyItem, { ...historyItem, id: 2 }, { ...historyItem, id: 3 }];
+      vi.mocked(searchHistoryApi.getAllHistory).mockResolvedValue(all);
+      mockHistory([historyItem]);
+      renderHistory({}, '/?tab=history&range=custom&from=2026-10-01');
+
+      await screen.findByText('"running shoes"');
+      await user.click(screen.getByRole('button', { name: 'Export' }));
+      await user.click(screen.getByRole('menuitem', { name: 'Export as CSV' }));
+
+      await vi.waitFor(() => expect(downloadHistoryExport).toHaveBeenCalledWith(all, 'csv'));
+      expect(searchHistoryApi.getAllHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ successOnly: false, startDate: expect.any(String) }),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('shows progress and can be cancelled', async () => {
+      const user = userEvent.setup();
+      vi.mocked(searchHistoryApi.getAllHistory).mockImplementation((_options, { signal, onProgress } = {}) => (
+        new Promise((_resolve, reject) => {
+          onProgress?.(100, 250);
+          signal?.addEventListener('abort', () => reject(Object.assign(new Error('canceled'), { name: 'CanceledError' })));
+        })
+      ));
+      mockHistory([historyItem]);
+      renderHistory();
+
+      await screen.findByText('"running shoes"');
+      await user.click(screen.getByRole('button', { name: 'Export' }));
+      await user.click(screen.getByRole('menuitem', { name: 'Export as JSON' }));
+      expect(await screen.findByText('Exporting 100 of 250 searches...')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Cancel export' }));
+
+      expect(screen.queryByText('Exporting 100 of 250 searches...')).not.toBeInTheDocument();
+      expect(screen.queryByText('Failed to export search history')).not.toBeInTheDocument();
+      expect(downloadHistoryExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failed searches', () => {
+    const failedItem: SearchHistoryItem = {
+      ...historyItem,
+      id: 5,
+      query: 'gold laptop',
+      resultsCount: 0,
+      success: false,
+      errorType: 'TIMEOUT',
+    };
+    const otherFailed: SearchHistoryItem = { ...failedItem, id: 6, query: 'desk lamp', errorType: 'AI_SERVICE_ERROR' };
+
+    it('explains why a search failed', async () => {
+      mockHistory([failedItem]);
+      renderHistory();
+
+      const row = (await screen.findByText('"gold laptop"', { selector: 'h6' })).closest('.MuiCard-root') as HTMLElement;
+      expect(within(row).getByText('Timed out')).toBeInTheDocument();
+    });
+
+    it('retries every failed search with its original filters and reports each outcome', async () => {
+      const user = userEvent.setup();
+      vi.mocked(productApi.aiSearch)
+        .mockResolvedValueOnce({ totalResults: 3 } as SearchResult)
+        .mockRejectedValueOnce(new Error('timeout'));
+      mockHistory([failedItem, otherFailed, historyItem]);
+      renderHistory();
+
+      await user.click(await screen.findByRole('button', { name: 'Retry all failed' }));
+
+      const panel = screen.getByRole('region', { name: 'Failed searches' });
+      expect(await within(panel).findByText('Worked · 3 results')).toBeInTheDocument();
+      expect(await within(panel).findByText('Failed again')).toBeInTheDocument();
+      expect(within(panel).getByText('1 of 2 retried worked')).toBeInTheDocument();
+      expect(productApi.aiSearch).toHaveBeenNthCalledWith(
+        1,
+        { query: 'gold laptop', filters: { brand: 'Nike', maxPrice: 120 }, sortBy: 'price_asc', page: 1 },
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+      expect(productApi.aiSearch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('grouped view', () => {
+    const today = new Date();
+    const at = (daysAgo: number, hour: number) => new Date(
+      today.getFullYear(), today.getMonth(), today.getDate() - daysAgo, hour
+    ).toISOString();
+    const repeats: SearchHistoryItem[] = [
+      { ...historyItem, id: 11, resultsCount: 12, createdAt: at(0, 0) },
+      { ...historyItem, id: 12, query: 'Running shoes', resultsCount: 4, createdAt: at(0, 0) },
+      { ...historyItem, id: 13, query: 'desk lamp', filters: {}, sortBy: null, createdAt: at(1, 9) },
+    ];
+
+    it('groups by day and collapses repeated searches', async () => {
+      mockHistory(repeats);
+      renderHistory();
+
+      const todaySection = await screen.findByRole('region', { name: 'Today' });
+      expect(within(todaySection).getAllByText(/running shoes/i)).toHaveLength(1);
+      expect(within(todaySection).getByText('Searched 2×')).toBeInTheDocument();
+      expect(within(todaySection).getByText('4–12 results')).toBeInTheDocument();
+      expect(within(screen.getByRole('region', { name: 'Yesterday' })).getByText('"desk lamp"')).toBeInTheDocument();
+    });
+
+    it('switches back to the raw list and remembers the choice', async () => {
+      const user = userEvent.setup();
+      mockHistory(repeats);
+      renderHistory();
+
+      await screen.findByRole('region', { name: 'Today' });
+      await user.click(screen.getByRole('button', { name: 'List' }));
+
+      expect(screen.queryByRole('region', { name: 'Today' })).not.toBeInTheDocument();
+      expect(screen.getByText('"running shoes"')).toBeInTheDocument();
+      expect(screen.getByText('"Running shoes"')).toBeInTheDocument();
+      expect(screen.queryByText('Searched 2×')).not.toBeInTheDocument();
+      expect(localStorage.getItem('smart-product-assistant:history-view')).toBe('"list"');
+    });
+
+    it('selects and deletes every repeat of a collapsed row', async () => {
+      const user = userEvent.setup();
+      mockHistory(repeats);
+      renderHistory();
+
+      await user.click(await screen.findByRole('checkbox', { name: 'Select "running shoes"' }));
+      expect(screen.getByRole('button', { name: 'Delete selected (2)' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Delete "running shoes"' }));
+      expect(screen.getByText('Deleted "running shoes" (2 searches)')).toBeInTheDocument();
+      expect(screen.queryByRole('region', { name: 'Today' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('signed out', () => {
+    beforeEach(() => {
+      authState.isAuthenticated = false;
+      recordLocalSearch({
+        query: 'desk lamp',
+        resultsCount: 4,
+        executionTimeMs: 300,
+        success: true,
+        errorType: null,
+        filters: { brand: 'IKEA' },
+        sortBy: 'relevance',
+      });
+    });
+
+    afterEach(() => {
+      authState.isAuthenticated = true;
+      authState.isLoading = false;
+      vi.useRealTimers();
+    });
+
+    it('loads the device history once the session check ends', async () => {
+      authState.isLoading = true;
+      const history = () => (
+        <MemoryRouter initialEntries={['/?tab=history']}>
+          <SearchHistory />
+        </MemoryRouter>
+      );
+      const { rerender } = render(history());
+      expect(screen.queryByText('"desk lamp"')).not.toBeInTheDocument();
+
+      authState.isLoading = false;
+      rerender(history());
+
+      expect(await screen.findByText('"desk lamp"')).toBeInTheDocument();
+      expect(searchHistoryApi.getHistory).not.toHaveBeenCalled();
+    });
+
+    it('shows the searches stored on this device', async () => {
+      renderHistory();
+
+      expect(await screen.findByText('"desk lamp"')).toBeInTheDocument();
+      expect(screen.getByText('Brand: IKEA')).toBeInTheDocument();
+      expect(screen.getByText('💻 Stored on this device')).toBeInTheDocument();
+      expect(screen.queryByText('👤 Personal')).not.toBeInTheDocument();
+      expect(searchHistoryApi.getHistory).not.toHaveBeenCalled();
+    });
+
+    it('deletes searches from this device only', async () => {
+      renderHistory();
+
+      const deleteButton = await screen.findByRole('button', { name: 'Delete "desk lamp"' });
+      vi.useFakeTimers();
+      fireEvent.click(deleteButton);
+      act(() => {
+        vi.advanceTimersByTime(6000);
+      });
+      vi.useRealTimers();
+
+      await waitFor(() => expect(readLocalHistory()).toEqual([]));
+      expect(searchHistoryApi.deleteHistoryItem).not.toHaveBeenCalled();
+      expect(await screen.findByText('Your search history is empty')).toBeInTheDocument();
+    });
+  });
+});
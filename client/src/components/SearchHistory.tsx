@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Box,
   Card,
@@ -18,7 +19,18 @@ import {
   Alert,
   Skeleton,
   Tooltip,
-  Stack
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Checkbox,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Snackbar,
+  Menu,
+  LinearProgress
 } from '@mui/material';
 import {
   History as HistoryIcon,
@@ -29,16 +41,72 @@ import {
   Error as ErrorIcon,
   Speed as SpeedIcon,
   Refresh as RefreshIcon,
-  Clear as ClearIcon
+  Clear as ClearIcon,
+  Sort as SortIcon,
+  Delete as DeleteIcon,
+  DeleteSweep as DeleteSweepIcon,
+  FileDownload as ExportIcon,
+  Repeat as RepeatIcon,
+  ViewAgenda as GroupedViewIcon,
+  ViewList as ListViewIcon
 } from '@mui/icons-material';
-import { searchHistoryApi, type SearchHistoryItem, type SearchHistoryOptions } from '../services/api';
+import {
+  searchHistoryApi,
+  type SearchHistoryItem,
+  type SearchHistoryOptions,
+  type SearchOptions
+} from '../services/api';
 import { useAuth } from '../context/AuthContext';
+import { useHistoryExport } from '../hooks/useHistoryExport';
+import { useSearchRetry } from '../hooks/useSearchRetry';
+import { getSearchErrorReason } from '../utils/searchErrors';
+import { formatResultRange, groupHistoryByDay, toHistoryRun, type HistoryRun } from '../utils/historyGroups';
+import { readJson, writeJson } from '../utils/storage';
+import { DEFAULT_SEARCH_HISTORY_LIMIT, localHistoryApi, type HistorySource } from '../utils/localHistory';
+import type { HistoryExportFormat } from '../utils/historyExport';
+import FailedSearches from './FailedSearches';
+import { getFilterLabels, SORT_LABELS, toSearchOptions } from '../utils/filters';
+import {
+  HISTORY_DATE_PRESET_LABELS,
+  applyHistoryDateRange,
+  getHistoryDateRangeLabel,
+  parseHistoryDateRange,
+  toHistoryDateOptions,
+  type HistoryDatePreset,
+  type HistoryDateRange
+} from '../utils/historyDateRange';
+
+// How long a deletion can be undone before it is sent to the server
+const UNDO_TIMEOUT_MS = 6000;
+
+// Grouped by day with repeats collapsed, or every search on its own row
+type HistoryView = 'grouped' | 'list';
+
+const HISTORY_VIEW_KEY = 'smart-product-assistant:history-view';
+
+const readHistoryView = (): HistoryView => {
+  return readJson<unknown>(HISTORY_VIEW_KEY, 'grouped') === 'list' ? 'list' : 'grouped';
+};
+
+// Entries removed from the list but not yet deleted on the server or device
+interface PendingDeletion {
+  source: HistorySource; // Where the entries are kept, should the user sign in or out meanwhile
+  ids: number[];
+  all: boolean; // Clear the whole history, not only the listed entries
+  items: SearchHistoryItem[]; // Restored on undo or when the deletion fails
+  message: string;
+}
+
+const sortByNewest = (items: SearchHistoryItem[]) => {
+  return [...items].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
 
 interface SearchHistoryProps {
-  onSearchSelect?: (query: string) => void;
+  onSearchSelect?: (options: SearchOptions) => void; // Re-runs the search as it was
+  onSearchWithCurrentFilters?: (query: string) => void;
 }
 
-const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
+const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect, onSearchWithCurrentFilters }) => {
   const { state: authState } = useAuth();
   const [historyData, setHistoryData] = useState<SearchHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
@@ -50,39 +118,196 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
     successOnly: false,
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [confirmAction, setConfirmAction] = useState<'selected' | 'all' | null>(null);
+  const [pendingDeletion, setPendingDeletion] = useState<PendingDeletion | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const pendingDeletionRef = useRef<PendingDeletion | null>(null);
+  const deletionTimerRef = useRef<number | null>(null);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+  const historyExport = useHistoryExport();
+  const searchRetry = useSearchRetry();
+  const [historyView, setHistoryView] = useState<HistoryView>(readHistoryView);
+  // Ignores responses that arrive after a newer fetch started
+  const fetchIdRef = useRef(0);
+
+  // Signed-out searches are kept on this device
+  const isGuest = !authState.isAuthenticated;
+  const historySource: HistorySource = isGuest ? localHistoryApi : searchHistoryApi;
+
+  // The date range lives in the URL so a filtered history can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const dateRange = parseHistoryDateRange(searchParams);
+  const dateRangeKey = JSON.stringify(dateRange);
 
   useEffect(() => {
     fetchHistory();
-  }, [page, filters]);
+  }, [page, filters, dateRangeKey, reloadCount]);
 
-  // Refresh search history when user authentication state changes
+  // Leaving the history view confirms a deletion that is waiting for undo
+  const commitDeletionRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    commitDeletionRef.current = commitDeletion;
+  });
+  useEffect(() => () => {
+    commitDeletionRef.current();
+  }, []);
+
+  // Refresh search history when user authentication state changes or the
+  // session check ends, since fetches are skipped while it runs
   useEffect(() => {
     if (authState.isAuthenticated && authState.user && !authState.isLoading) {
       // User just signed in - refresh the search history
       console.log('User signed in - refreshing search history');
       fetchHistory();
     } else if (!authState.isAuthenticated && !authState.isLoading) {
-      // User signed out - clear the search history
-      console.log('User signed out - clearing search history');
-      setHistoryData([]);
+      // User signed out - show the searches stored on this device
+      console.log('User signed out - showing local search history');
       setPage(1);
-      setTotalPages(1);
+      fetchHistory();
     }
-  }, [authState.isAuthenticated, authState.user]);
+    // Ids of account and device entries overlap
+    setSelectedIds([]);
+    searchRetry.clearOutcomes();
+  }, [authState.isAuthenticated, authState.user, authState.isLoading]);
 
   const fetchHistory = async () => {
+    // Wait for the session check, so a signed-in user never sees the device history first
+    if (authState.isLoading) return;
+
+    const fetchId = ++fetchIdRef.current;
     try {
       setLoading(true);
       setError(null);
-      const response = await searchHistoryApi.getHistory({ ...filters, page });
-      setHistoryData(response.data);
+      const response = await historySource.getHistory({ ...filters, ...toHistoryDateOptions(dateRange), page });
+      if (fetchId !== fetchIdRef.current) return;
+      // Keep entries that are about to be deleted out of the list
+      const pending = pendingDeletionRef.current?.source === historySource ? pendingDeletionRef.current : null;
+      setHistoryData(pending
+        ? response.data.filter(item => !pending.all && !pending.ids.includes(item.id))
+        : response.data);
+      setSelectedIds(prev => prev.filter(id => response.data.some(item => item.id === id)));
       setTotalPages(response.pagination.totalPages);
     } catch (err) {
+      if (fetchId !== fetchIdRef.current) return;
       console.error('Error fetching search history:', err);
       setError('Failed to load search history');
     } finally {
-      setLoading(false);
+      if (fetchId === fetchIdRef.current) setLoading(false);
+    }
+  };
+
+  const restoreItems = (items: SearchHistoryItem[]) => {
+    setHistoryData(prev => sortByNewest([...prev, ...items.filter(item => !prev.some(existing => existing.id === item.id))]));
+  };
+
+  // Send the pending deletion to the server; put the entries back if it fails
+  const commitDeletion = async () => {
+    const deletion = pendingDeletionRef.current;
+    if (!deletion) return;
+
+    if (deletionTimerRef.current !== null) {
+      window.clearTimeout(deletionTimerRef.current);
+      deletionTimerRef.current = null;
+    }
+    pendingDeletionRef.current = null;
+    setPendingDeletion(null);
+
+    try {
+      if (deletion.all) {
+        await deletion.source.clearHistory();
+      } else if (deletion.ids.length === 1) {
+        await deletion.source.deleteHistoryItem(deletion.ids[0]);
+      } else {
+        await deletion.source.deleteHistoryItems(deletion.ids);
+      }
+      setReloadCount(count => count + 1); // Refill the page
+    } catch (err) {
+      console.error('Error deleting search history:', err);
+      restoreItems(deletion.items);
+      setError('Failed to delete search history. Your searches have been restored.');
+    }
+  };
+
+  // Remove entries right away and delete them for good once undo is no longer offered
+  const startDeletion = (options: Omit<PendingDeletion, 'source'>) => {
+    commitDeletion();
+
+    const deletion = { ...options, source: historySource };
+    setHistoryData(prev => prev.filter(item => !deletion.all && !deletion.ids.includes(item.id)));
+    setSelectedIds(prev => (deletion.all ? [] : prev.filter(id => !deletion.ids.includes(id))));
+    pendingDeletionRef.current = deletion;
+    setPendingDeletion(deletion);
+    deletionTimerRef.current = window.setTimeout(commitDeletion, UNDO_TIMEOUT_MS);
+  };
+
+  const undoDeletion = () => {
+    const deletion = pendingDeletionRef.current;
+    if (!deletion) return;
+
+    if (deletionTimerRef.current !== null) {
+      window.clearTimeout(deletionTimerRef.current);
+      deletionTimerRef.current = null;
+    }
+    pendingDeletionRef.current = null;
+    setPendingDeletion(null);
+    restoreItems(deletion.items);
+  };
+
+  // Deleting a collapsed row deletes every repeat in it
+  const handleDeleteRun = (e: React.MouseEvent, run: HistoryRun) => {
+    e.stopPropagation();
+    const count = run.items.length;
+    startDeletion({
+      ids: run.items.map(item => item.id),
+      all: false,
+      items: run.items,
+      message: count > 1 ? `Deleted "${run.latest.query}" (${count} searches)` : `Deleted "${run.latest.query}"`,
+    });
+  };
+
+  const toggleRunSelected = (run: HistoryRun) => {
+    const ids = run.items.map(item => item.id);
+    setSelectedIds(prev => (ids.every(id => prev.includes(id))
+      ? prev.filter(id => !ids.includes(id))
+      : [...prev, ...ids.filter(id => !prev.includes(id))]));
+  };
+
+  const handleHistoryViewChange = (_: React.MouseEvent<HTMLElement>, view: HistoryView | null) => {
+    if (!view) return;
+    setHistoryView(view);
+    writeJson(HISTORY_VIEW_KEY, view);
+  };
+
+  const handleConfirmDeletion = () => {
+    if (confirmAction === 'all') {
+      startDeletion({ ids: [], all: true, items: historyData, message: 'Search history cleared' });
+    } else if (confirmAction === 'selected') {
+      const items = historyData.filter(item => selectedIds.includes(item.id));
+      startDeletion({
+        ids: items.map(item => item.id),
+        all: false,
+        items,
+        message: `Deleted ${items.length} search${items.length !== 1 ? 'es' : ''}`,
+      });
     }
+    setConfirmAction(null);
+  };
+
+  const allSelected = historyData.length > 0 && historyData.every(item => selectedIds.includes(item.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : historyData.map(item => item.id));
+  };
+
+  // Export every entry matching the applied filters, not only the current page
+  const handleExport = (format: HistoryExportFormat) => {
+    setExportMenuAnchor(null);
+    historyExport.exportHistory({
+      query: filters.query,
+      successOnly: filters.successOnly,
+      ...toHistoryDateOptions(dateRange),
+    }, format, historySource);
   };
 
   const handleFilterChange = (newFilters: Partial<SearchHistoryOptions>) => {
@@ -94,15 +319,41 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
     setPage(value);
   };
 
-  const handleSearchSelect = (query: string) => {
+  const handleSearchSelect = (item: SearchHistoryItem) => {
     if (onSearchSelect) {
-      onSearchSelect(query);
+      onSearchSelect(toSearchOptions(item));
+    }
+  };
+
+  const handleSearchWithCurrentFilters = (e: React.MouseEvent, query: string) => {
+    e.stopPropagation();
+    onSearchWithCurrentFilters?.(query);
+  };
+
+  const handleDateRangeChange = (range: HistoryDateRange) => {
+    setSearchParams(applyHistoryDateRange(searchParams, range), { replace: true });
+    setPage(1);
+  };
+
+  const handleDatePresetChange = (preset: HistoryDatePreset) => {
+    // Start a custom range from what the preset covered
+    if (preset === 'custom') {
+      const { startDate } = toHistoryDateOptions(dateRange);
+      handleDateRangeChange({ preset, from: startDate ? toDateInputValue(new Date(startDate)) : undefined });
+      return;
     }
+    handleDateRangeChange({ preset });
   };
 
   const clearFilters = () => {
     setFilters({ limit: 10, successOnly: false });
-    setPage(1);
+    handleDateRangeChange({ preset: 'all' });
+  };
+
+  // `YYYY-MM-DD` in local time, as used by date inputs
+  const toDateInputValue = (date: Date) => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
   };
 
   const formatDate = (dateString: string) => {
@@ -139,6 +390,182 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
     );
   }
 
+  // One row of the list: a single search, or consecutive repeats of the same search
+  const renderHistoryRun = (run: HistoryRun) => {
+    const item = run.latest;
+    const runIds = run.items.map(runItem => runItem.id);
+    const selectedCount = runIds.filter(id => selectedIds.includes(id)).length;
+    const { filters: itemFilters = {}, sortBy: itemSortBy = 'relevance' } = toSearchOptions(item);
+    const filterLabels = getFilterLabels(itemFilters);
+
+    return (
+      <Card
+        key={item.id}
+        sx={{
+          cursor: 'pointer',
+          border: '1px solid rgba(0,0,0,0.1)',
+          borderRadius: { xs: 2, sm: 3 },
+          '&:hover': {
+            boxShadow: '0 8px 25px rgba(102, 126, 234, 0.15)',
+            border: '1px solid rgba(102, 126, 234, 0.3)'
+          }
+        }}
+        onClick={() => handleSearchSelect(item)}
+      >
+        <CardContent sx={{ p: { xs: 1.5, sm: 2 } }}>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: { xs: 1, sm: 0 } }}>
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <Checkbox
+                size="small"
+                checked={selectedCount === runIds.length}
+                indeterminate={selectedCount > 0 && selectedCount < runIds.length}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleRunSelected(run)}
+                inputProps={{ 'aria-label': `Select "${item.query}"` }}
+                sx={{ p: 0.25 }}
+              />
+              <Typography
+                variant="subtitle1"
+                sx={{
+                  flex: 1,
+                  fontWeight: 600,
+                  mb: { xs: 1, sm: 1.5 },
+                  fontSize: { xs: '0.95rem', sm: '1.1rem' },
+                  lineHeight: 1.3,
+                  wordBreak: 'break-word'
+                }}
+              >
+                "{item.query}"
+              </Typography>
+              <Tooltip title="Delete" describeChild>
+                <IconButton
+                  size="small"
+                  onClick={(e) => handleDeleteRun(e, run)}
+                  aria-label={`Delete "${item.query}"`}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Box sx={{ 
+              display: 'flex', 
+              flexWrap: 'wrap', 
+              gap: { xs: 0.75, sm: 1 }, 
+              alignItems: 'center' 
+            }}>
+              <Tooltip title={item.success ? '' : getSearchErrorReason(item.errorType).description}>
+                <Chip
+                  icon={item.success ? 
+                    <SuccessIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} /> : 
+                    <ErrorIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />
+                  }
+                  label={item.success ? 'Success' : getSearchErrorReason(item.errorType).title}
+                  size="small"
+                  color={item.success ? 'success' : 'error'}
+                  variant="outlined"
+                  sx={{
+                    fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                    height: { xs: 24, sm: 28 }
+                  }}
+                />
+              </Tooltip>
+              <Chip
+                icon={<SearchIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
+                label={formatResultRange(run)}
+                size="small"
+                variant="outlined"
+                sx={{
+                  fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                  height: { xs: 24, sm: 28 }
+                }}
+              />
+              {run.items.length > 1 && (
+                <Chip
+                  icon={<RepeatIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
+                  label={`Searched ${run.items.length}×`}
+                  size="small"
+                  color="secondary"
+                  variant="outlined"
+                  sx={{
+                    fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                    height: { xs: 24, sm: 28 }
+                  }}
+                />
+              )}
+              <Chip
+                icon={<SpeedIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
+                label={formatExecutionTime(item.executionTimeMs)}
+                size="small"
+                variant="outlined"
+                sx={{
+                  fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                  height: { xs: 24, sm: 28 }
+                }}
+              />
+              <Chip
+                icon={<CalendarIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
+                label={formatDate(item.createdAt)}
+                size="small"
+                variant="outlined"
+                sx={{
+                  fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                  height: { xs: 24, sm: 28 }
+                }}
+              />
+            </Box>
+            {(filterLabels.length > 0 || itemSortBy !== 'relevance') && (
+              <Box sx={{
+                display: 'flex',
+                flexWrap: 'wrap',
+                gap: { xs: 0.75, sm: 1 },
+                alignItems: 'center',
+                mt: 1
+              }}>
+                {filterLabels.map(({ key, label }) => (
+                  <Chip
+                    key={key}
+                    label={label}
+                    size="small"
+                    color="primary"
+                    variant="outlined"
+                    sx={{
+                      fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                      height: { xs: 24, sm: 28 }
+                    }}
+                  />
+                ))}
+                {itemSortBy !== 'relevance' && (
+                  <Chip
+                    icon={<SortIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
+                    label={SORT_LABELS[itemSortBy]}
+                    size="small"
+                    color="primary"
+                    variant="outlined"
+                    sx={{
+                      fontSize: { xs: '0.7rem', sm: '0.75rem' },
+                      height: { xs: 24, sm: 28 }
+                    }}
+                  />
+                )}
+              </Box>
+            )}
+            {onSearchWithCurrentFilters && (
+              <Box sx={{ mt: 1 }}>
+                <Button
+                  size="small"
+                  onClick={(e) => handleSearchWithCurrentFilters(e, item.query)}
+                  sx={{ textTransform: 'none', fontWeight: 600, p: 0, minHeight: 'auto' }}
+                >
+                  Run with current filters
+                </Button>
+              </Box>
+            )}
+          </Box>
+        </CardContent>
+      </Card>
+    );
+  };
+
   return (
     <Card sx={{ 
       borderRadius: { xs: 2, sm: 3, md: 4 }, 
@@ -178,17 +605,43 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
                 fontSize: { xs: '0.7rem', sm: '0.8rem' }
               }}
             />
-            <Chip 
-              label="👤 Personal"
-              size="small"
-              sx={{ 
-                background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.1) 0%, rgba(56, 142, 60, 0.1) 100%)',
-                border: '1px solid rgba(76, 175, 80, 0.3)',
-                fontSize: { xs: '0.65rem', sm: '0.75rem' },
-                color: 'success.main',
-                fontWeight: 600
-              }}
-            />
+            {isGuest ? (
+              <Tooltip title={`Your last ${DEFAULT_SEARCH_HISTORY_LIMIT} searches are kept in this browser until you sign in`}>
+                <Chip
+                  label="💻 Stored on this device"
+                  size="small"
+                  sx={{
+                    background: 'rgba(255, 152, 0, 0.08)',
+                    border: '1px solid rgba(255, 152, 0, 0.3)',
+                    fontSize: { xs: '0.65rem', sm: '0.75rem' },
+                    color: 'warning.dark',
+                    fontWeight: 600
+                  }}
+                />
+              </Tooltip>
+            ) : (
+              <Chip 
+                label="👤 Personal"
+                size="small"
+                sx={{ 
+                  background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.1) 0%, rgba(56, 142, 60, 0.1) 100%)',
+                  border: '1px solid rgba(76, 175, 80, 0.3)',
+                  fontSize: { xs: '0.65rem', sm: '0.75rem' },
+                  color: 'success.main',
+                  fontWeight: 600
+                }}
+              />
+            )}
+            {dateRange.preset !== 'all' && (
+              <Chip
+                icon={<CalendarIcon sx={{ fontSize: '0.9rem' }} />}
+                label={getHistoryDateRangeLabel(dateRange)}
+                size="small"
+                color="primary"
+                onDelete={() => handleDateRangeChange({ preset: 'all' })}
+                sx={{ fontSize: { xs: '0.65rem', sm: '0.75rem' } }}
+              />
+            )}
           </Box>
           <Box sx={{ display: 'flex', gap: 1, width: { xs: '100%', sm: 'auto' } }}>
             <Tooltip title="Refresh">
@@ -196,6 +649,30 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
                 <RefreshIcon sx={{ fontSize: { xs: '1.1rem', sm: '1.25rem' } }} />
               </IconButton>
             </Tooltip>
+            <Button
+              startIcon={<ExportIcon sx={{ fontSize: { xs: '1rem', sm: '1.1rem' } }} />}
+              onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+              disabled={historyExport.isExporting}
+              variant="outlined"
+              size="small"
+              aria-haspopup="menu"
+              sx={{
+                borderRadius: 2,
+                textTransform: 'none',
+                fontSize: { xs: '0.8rem', sm: '0.875rem' },
+                flex: { xs: 1, sm: 'unset' }
+              }}
+            >
+              Export
+            </Button>
+            <Menu
+              anchorEl={exportMenuAnchor}
+              open={Boolean(exportMenuAnchor)}
+              onClose={() => setExportMenuAnchor(null)}
+            >
+              <MenuItem onClick={() => handleExport('csv')}>Export as CSV</MenuItem>
+              <MenuItem onClick={() => handleExport('json')}>Export as JSON</MenuItem>
+            </Menu>
             <Button
               startIcon={<FilterIcon sx={{ fontSize: { xs: '1rem', sm: '1.1rem' } }} />}
               onClick={() => setShowFilters(!showFilters)}
@@ -259,6 +736,44 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
                   </Select>
                 </FormControl>
               </Box>
+              <Box sx={{ display: 'flex', flexDirection: { xs: 'column', sm: 'row' }, gap: { xs: 1.5, sm: 2 }, alignItems: { xs: 'stretch', sm: 'center' }, flexWrap: 'wrap' }}>
+                <ToggleButtonGroup
+                  value={dateRange.preset}
+                  exclusive
+                  size="small"
+                  onChange={(_, preset: HistoryDatePreset | null) => preset && handleDatePresetChange(preset)}
+                  aria-label="Date range"
+                  sx={{ flexWrap: 'wrap' }}
+                >
+                  {(Object.keys(HISTORY_DATE_PRESET_LABELS) as HistoryDatePreset[]).map(preset => (
+                    <ToggleButton key={preset} value={preset} sx={{ textTransform: 'none', px: 1.5 }}>
+                      {HISTORY_DATE_PRESET_LABELS[preset]}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+                {dateRange.preset === 'custom' && (
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <TextField
+                      size="small"
+                      type="date"
+                      label="From"
+                      value={dateRange.from || ''}
+                      onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value || undefined })}
+                      InputLabelProps={{ shrink: true }}
+                      inputProps={{ max: dateRange.to }}
+                    />
+                    <TextField
+                      size="small"
+                      type="date"
+                      label="To"
+                      value={dateRange.to || ''}
+                      onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value || undefined })}
+                      InputLabelProps={{ shrink: true }}
+                      inputProps={{ min: dateRange.from }}
+                    />
+                  </Box>
+                )}
+              </Box>
               <Box sx={{ 
                 display: 'flex', 
                 flexDirection: { xs: 'column', sm: 'row' }, 
@@ -300,12 +815,112 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
           </Box>
         )}
 
+        {/* Export progress */}
+        {historyExport.isExporting && (
+          <Box sx={{ mb: 3 }} role="status">
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                {historyExport.progress
+                  ? `Exporting ${historyExport.progress.loaded} of ${historyExport.progress.total} searches...`
+                  : 'Preparing export...'}
+              </Typography>
+              <Button size="small" onClick={historyExport.cancelExport} sx={{ textTransform: 'none' }}>
+                Cancel export
+              </Button>
+            </Box>
+            <LinearProgress
+              variant={historyExport.progress?.total ? 'determinate' : 'indeterminate'}
+              value={historyExport.progress?.total
+                ? (historyExport.progress.loaded / historyExport.progress.total) * 100
+                : undefined}
+              aria-label="Export progress"
+            />
+          </Box>
+        )}
+
         {/* Error State */}
         {error && (
           <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
             {error}
           </Alert>
         )}
+        {historyExport.error && (
+          <Alert severity="error" sx={{ mb: 3, borderRadius: 2 }}>
+            {historyExport.error}
+          </Alert>
+        )}
+
+        {/* Bulk actions */}
+        {historyData.length > 0 && (
+          <Box sx={{
+            display: 'flex',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 1,
+            mb: 2
+          }}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={allSelected}
+                  indeterminate={selectedIds.length > 0 && !allSelected}
+                  onChange={toggleSelectAll}
+                />
+              }
+              label={<Typography variant="body2">Select all</Typography>}
+            />
+            {selectedIds.length > 0 && (
+              <Button
+                size="small"
+                color="error"
+                variant="outlined"
+                startIcon={<DeleteIcon />}
+                onClick={() => setConfirmAction('selected')}
+                sx={{ borderRadius: 2, textTransform: 'none' }}
+              >
+                Delete selected ({selectedIds.length})
+              </Button>
+            )}
+            <ToggleButtonGroup
+              value={historyView}
+              exclusive
+              size="small"
+              onChange={handleHistoryViewChange}
+              aria-label="History view"
+              sx={{ ml: 'auto' }}
+            >
+              <ToggleButton value="grouped" sx={{ textTransform: 'none', gap: 0.5, py: 0.25 }}>
+                <GroupedViewIcon fontSize="small" />
+                Grouped
+              </ToggleButton>
+              <ToggleButton value="list" sx={{ textTransform: 'none', gap: 0.5, py: 0.25 }}>
+                <ListViewIcon fontSize="small" />
+                List
+              </ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              size="small"
+              color="error"
+              startIcon={<DeleteSweepIcon />}
+              onClick={() => setConfirmAction('all')}
+              sx={{ borderRadius: 2, textTransform: 'none' }}
+            >
+              Clear all history
+            </Button>
+          </Box>
+        )}
+
+        {/* Failed searches on this page */}
+        <FailedSearches
+          items={historyData}
+          outcomes={searchRetry.outcomes}
+          isRetryingAll={searchRetry.isRetryingAll}
+          onRetry={searchRetry.retry}
+          onRetryAll={searchRetry.retryAll}
+          onCancelRetryAll={searchRetry.cancelRetryAll}
+          onViewResults={onSearchSelect && handleSearchSelect}
+        />
 
         {/* History Items */}
         {historyData.length === 0 ? (
@@ -318,94 +933,30 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
               Your personal search queries will appear here once you start searching.
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ fontSize: '0.85rem', fontStyle: 'italic' }}>
-              🔒 Only you can see your search history - it's completely private and personalized.
+              {isGuest
+                ? '💻 While signed out, your searches are stored on this device. Sign in to add them to your account.'
+                : "🔒 Only you can see your search history - it's completely private and personalized."}
             </Typography>
           </Box>
         ) : (
           <Stack spacing={2}>
-            {historyData.map((item) => (
-                              <Card
-                  key={item.id}
-                  sx={{
-                    cursor: 'pointer',
-                    border: '1px solid rgba(0,0,0,0.1)',
-                    borderRadius: { xs: 2, sm: 3 },
-                    '&:hover': {
-                      boxShadow: '0 8px 25px rgba(102, 126, 234, 0.15)',
-                      border: '1px solid rgba(102, 126, 234, 0.3)'
-                    }
-                  }}
-                  onClick={() => handleSearchSelect(item.query)}
-                >
-                  <CardContent sx={{ p: { xs: 1.5, sm: 2 } }}>
-                    <Box sx={{ display: 'flex', flexDirection: 'column', gap: { xs: 1, sm: 0 } }}>
-                      <Typography
-                        variant="subtitle1"
-                        sx={{
-                          fontWeight: 600,
-                          mb: { xs: 1, sm: 1.5 },
-                          fontSize: { xs: '0.95rem', sm: '1.1rem' },
-                          lineHeight: 1.3,
-                          wordBreak: 'break-word'
-                        }}
-                      >
-                        "{item.query}"
-                      </Typography>
-                      <Box sx={{ 
-                        display: 'flex', 
-                        flexWrap: 'wrap', 
-                        gap: { xs: 0.75, sm: 1 }, 
-                        alignItems: 'center' 
-                      }}>
-                        <Chip
-                          icon={item.success ? 
-                            <SuccessIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} /> : 
-                            <ErrorIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />
-                          }
-                          label={item.success ? 'Success' : item.errorType || 'Failed'}
-                          size="small"
-                          color={item.success ? 'success' : 'error'}
-                          variant="outlined"
-                          sx={{
-                            fontSize: { xs: '0.7rem', sm: '0.75rem' },
-                            height: { xs: 24, sm: 28 }
-                          }}
-                        />
-                        <Chip
-                          icon={<SearchIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
-                          label={`${item.resultsCount} results`}
-                          size="small"
-                          variant="outlined"
-                          sx={{
-                            fontSize: { xs: '0.7rem', sm: '0.75rem' },
-                            height: { xs: 24, sm: 28 }
-                          }}
-                        />
-                        <Chip
-                          icon={<SpeedIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
-                          label={formatExecutionTime(item.executionTimeMs)}
-                          size="small"
-                          variant="outlined"
-                          sx={{
-                            fontSize: { xs: '0.7rem', sm: '0.75rem' },
-                            height: { xs: 24, sm: 28 }
-                          }}
-                        />
-                        <Chip
-                          icon={<CalendarIcon sx={{ fontSize: { xs: '0.9rem', sm: '1rem' } }} />}
-                          label={formatDate(item.createdAt)}
-                          size="small"
-                          variant="outlined"
-                          sx={{
-                            fontSize: { xs: '0.7rem', sm: '0.75rem' },
-                            height: { xs: 24, sm: 28 }
-                          }}
-                        />
-                      </Box>
-                    </Box>
-                  </CardContent>
-                </Card>
-            ))}
+            {historyView === 'grouped'
+              ? groupHistoryByDay(historyData).map(group => (
+                <Box key={group.label} component="section" aria-label={group.label}>
+                  <Typography
+                    variant="overline"
+                    component="h3"
+                    color="text.secondary"
+                    sx={{ display: 'block', fontWeight: 600, mb: 1 }}
+                  >
+                    {group.label}
+                  </Typography>
+                  <Stack spacing={2}>
+                    {group.runs.map(renderHistoryRun)}
+                  </Stack>
+                </Box>
+              ))
+              : historyData.map(item => renderHistoryRun(toHistoryRun(item)))}
           </Stack>
         )}
 
@@ -426,6 +977,37 @@ const SearchHistory: React.FC<SearchHistoryProps> = ({ onSearchSelect }) => {
           </Box>
         )}
       </CardContent>
+
+      {/* Confirm bulk deletion */}
+      <Dialog open={confirmAction !== null} onClose={() => setConfirmAction(null)}>
+        <DialogTitle>
+          {confirmAction === 'all' ? 'Clear all search history?' : 'Delete selected searches?'}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {confirmAction === 'all'
+              ? 'All of your past searches will be removed, including those not shown on this page.'
+              : `${selectedIds.length} search${selectedIds.length !== 1 ? 'es' : ''} will be removed from your history.`}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmAction(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleConfirmDeletion}>
+            {confirmAction === 'all' ? 'Clear all' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Undo the last deletion */}
+      <Snackbar
+        open={pendingDeletion !== null}
+        message={pendingDeletion?.message}
+        action={
+          <Button color="inherit" size="small" onClick={undoDeletion}>
+            Undo
+          </Button>
+        }
+      />
     </Card>
   );
 };
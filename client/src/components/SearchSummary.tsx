@@ -0,0 +1,131 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Stack,
+  Button
+} from '@mui/material';
+import {
+  Speed as SpeedIcon,
+  Search as SearchIcon,
+  Sort as SortIcon,
+  PushPin as PinIcon,
+  PushPinOutlined as PinOutlinedIcon
+} from '@mui/icons-material';
+import type { SearchResult } from '../services/api';
+import { getFilterLabels, SORT_LABELS } from '../utils/filters';
+
+interface SearchSummaryProps {
+  query: string;
+  meta?: Omit<SearchResult, 'products'> | null;
+  onClear: () => void;
+  isSaved?: boolean; // The search is pinned as a saved search
+  onToggleSaved?: () => void;
+}
+
+const SearchSummary: React.FC<SearchSummaryProps> = ({ query, meta, onClear, isSaved = false, onToggleSaved }) => {
+  const formatExecutionTime = (timeMs: number) => {
+    if (timeMs < 1000) return `${timeMs}ms`;
+    return `${(timeMs / 1000).toFixed(1)}s`;
+  };
+
+  const appliedFilterLabels = meta ? getFilterLabels(meta.appliedFilters) : [];
+
+  return (
+    <Box sx={{
+      textAlign: 'center',
+      mt: { xs: 2, sm: 3 },
+      p: { xs: 1.5, sm: 2 },
+      background: 'linear-gradient(135deg, rgba(102, 126, 234, 0.1) 0%, rgba(118, 75, 162, 0.1) 100%)',
+      borderRadius: 2,
+      border: '1px solid rgba(102, 126, 234, 0.2)'
+    }}>
+      <Typography
+        variant="body1"
+        color="text.primary"
+        gutterBottom
+        sx={{
+          fontWeight: 500,
+          fontSize: { xs: '0.9rem', sm: '1rem' }
+        }}
+      >
+        🎯 AI recommendations for: "<strong>{query}</strong>"
+      </Typography>
+
+      {meta && (
+        <Stack
+          direction="row"
+          spacing={1}
+          flexWrap="wrap"
+          useFlexGap
+          justifyContent="center"
+          sx={{ mb: 1 }}
+        >
+          <Chip
+            icon={<SearchIcon />}
+            label={`${meta.totalResults} result${meta.totalResults !== 1 ? 's' : ''}`}
+            size="small"
+            variant="outlined"
+          />
+          {Number.isFinite(meta.executionTimeMs) && (
+            <Chip
+              icon={<SpeedIcon />}
+              label={`in ${formatExecutionTime(meta.executionTimeMs)}`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {meta.appliedSortBy !== 'relevance' && (
+            <Chip
+              icon={<SortIcon />}
+              label={SORT_LABELS[meta.appliedSortBy]}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {appliedFilterLabels.map(({ key, label }) => (
+            <Chip
+              key={key}
+              label={label}
+              size="small"
+              color="primary"
+              variant="outlined"
+            />
+          ))}
+        </Stack>
+      )}
+
+      {onToggleSaved && (
+        <Button
+          size="small"
+          variant={isSaved ? 'contained' : 'outlined'}
+          startIcon={isSaved ? <PinIcon /> : <PinOutlinedIcon />}
+          onClick={onToggleSaved}
+          aria-pressed={isSaved}
+          sx={{ mb: 1, px: 1.5, py: 0.5 }}
+        >
+          {isSaved ? 'Saved search' : 'Save search'}
+        </Button>
+      )}
+
+      <Typography
+        variant="body2"
+        color="primary"
+        sx={{
+          cursor: 'pointer',
+          fontWeight: 600,
+          fontSize: { xs: '0.8rem', sm: '0.875rem' },
+          '&:hover': {
+            textDecoration: 'underline'
+          }
+        }}
+        onClick={onClear}
+      >
+        ← Clear search and show all products
+      </Typography>
+    </Box>
+  );
+};
+
+export default SearchSummary;
@@ -8,6 +8,20 @@ export { default as LoginForm } from './LoginForm';
 export { default as RegisterForm } from './RegisterForm';
 export { default as UserMenu } from './UserMenu';
 export { default as FilterAndSort } from './FilterAndSort';
+export { default as ProductDetail } from './ProductDetail';
+export { default as SearchSummary } from './SearchSummary';
+export { default as AssistantChat } from './AssistantChat';
+export { default as CompareTray } from './CompareTray';
+export { default as ProductComparison } from './ProductComparison';
+export { default as SavedProducts } from './SavedProducts';
+export { default as RecentlyViewed } from './RecentlyViewed';
+export { default as SavedSearches } from './SavedSearches';
+export { default as SearchAnalytics } from './SearchAnalytics';
+export { default as BarChart } from './BarChart';
+export { default as LineChart } from './LineChart';
+export { default as FailedSearches } from './FailedSearches';
+export { default as LocalHistoryUpload } from './LocalHistoryUpload';
 
 // Export types
-export type { Product } from './ProductCard'; 
\ No newline at end of file
+export type { Product } from './ProductCard';
+export type { PaginationMode } from './ProductGrid'; 
\ No newline at end of file
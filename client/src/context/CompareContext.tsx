@@ -0,0 +1,84 @@
+import React, { useReducer, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import type { Product } from '../components/ProductCard';
+import { readJson, writeJson } from '../utils/storage';
+import { CompareContext, MAX_COMPARE_PRODUCTS, type CompareState } from './compare';
+
+const STORAGE_KEY = 'smart-product-assistant:compare';
+
+// Actions
+type CompareAction =
+  | { type: 'ADD_PRODUCT'; payload: Product }
+  | { type: 'REMOVE_PRODUCT'; payload: string }
+  | { type: 'CLEAR' };
+
+// Reducer
+const compareReducer = (state: CompareState, action: CompareAction): CompareState => {
+  switch (action.type) {
+    case 'ADD_PRODUCT':
+      if (state.products.length >= MAX_COMPARE_PRODUCTS || state.products.some(product => product.id === action.payload.id)) {
+        return state;
+      }
+      return { products: [...state.products, action.payload] };
+    case 'REMOVE_PRODUCT':
+      return { products: state.products.filter(product => product.id !== action.payload) };
+    case 'CLEAR':
+      return { products: [] };
+    default:
+      return state;
+  }
+};
+
+// Restore the tray from the last visit
+const loadInitialState = (): CompareState => {
+  const stored = readJson<unknown>(STORAGE_KEY, []);
+  const products = Array.isArray(stored) ? (stored as Product[]).slice(0, MAX_COMPARE_PRODUCTS) : [];
+  return { products };
+};
+
+// Provider
+interface CompareProviderProps {
+  children: ReactNode;
+}
+
+export const CompareProvider: React.FC<CompareProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(compareReducer, undefined, loadInitialState);
+
+  // Keep the tray across page reloads
+  useEffect(() => {
+    writeJson(STORAGE_KEY, state.products);
+  }, [state.products]);
+
+  const isCompared = (productId: string) => state.products.some(product => product.id === productId);
+
+  const toggleProduct = (product: Product) => {
+    if (isCompared(product.id)) {
+      dispatch({ type: 'REMOVE_PRODUCT', payload: product.id });
+    } else {
+      dispatch({ type: 'ADD_PRODUCT', payload: product });
+    }
+  };
+
+  const removeProduct = (productId: string) => {
+    dispatch({ type: 'REMOVE_PRODUCT', payload: productId });
+  };
+
+  const clear = () => {
+    dispatch({ type: 'CLEAR' });
+  };
+
+  return (
+    <CompareContext.Provider
+      value={{
+        state,
+        isCompared,
+        isFull: state.products.length >= MAX_COMPARE_PRODUCTS,
+        toggleProduct,
+        removeProduct,
+        clear,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+};
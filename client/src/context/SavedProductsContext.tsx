@@ -0,0 +1,149 @@
+import React, { useReducer, useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import type { Product } from '../components/ProductCard';
+import { savedItemsApi, apiUtils } from '../services/api';
+import { readJson, writeJson, removeItem } from '../utils/storage';
+import { useAuth } from './AuthContext';
+import { SavedProductsContext, type SavedProductsState } from './savedProducts';
+
+// Products saved while signed out; merged into the account on login
+const GUEST_STORAGE_KEY = 'smart-product-assistant:saved';
+
+// Actions
+type SavedProductsAction =
+  | { type: 'SET_PRODUCTS'; payload: Product[] }
+  | { type: 'ADD_PRODUCT'; payload: Product }
+  | { type: 'REMOVE_PRODUCT'; payload: string }
+  | { type: 'SET_SYNCING'; payload: boolean }
+  | { type: 'SET_ERROR'; payload: string | null };
+
+const readGuestProducts = (): Product[] => {
+  const stored = readJson<unknown>(GUEST_STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored as Product[] : [];
+};
+
+// Reducer
+const savedProductsReducer = (state: SavedProductsState, action: SavedProductsAction): SavedProductsState => {
+  switch (action.type) {
+    case 'SET_PRODUCTS':
+      return { ...state, products: action.payload, isSyncing: false };
+    case 'ADD_PRODUCT':
+      return state.products.some(product => product.id === action.payload.id)
+        ? state
+        : { ...state, products: [action.payload, ...state.products] };
+    case 'REMOVE_PRODUCT':
+      return { ...state, products: state.products.filter(product => product.id !== action.payload) };
+    case 'SET_SYNCING':
+      return { ...state, isSyncing: action.payload };
+    case 'SET_ERROR':
+      return { ...state, error: action.payload, isSyncing: false };
+    default:
+      return state;
+  }
+};
+
+// Provider
+interface SavedProductsProviderProps {
+  children: ReactNode;
+}
+
+export const SavedProductsProvider: React.FC<SavedProductsProviderProps> = ({ children }) => {
+  const { state: authState } = useAuth();
+  const [state, dispatch] = useReducer(savedProductsReducer, undefined, () => ({
+    products: readGuestProducts(),
+    isSyncing: false,
+    error: null,
+  }));
+  // Ignores sync responses that arrive after the user changed
+  const syncIdRef = useRef(0);
+  // A guest changed the list; stored once the change is applied, so quick
+  // toggles build on each other instead of on the list of one render
+  const guestChangedRef = useRef(false);
+
+  const userId = authState.user?.id ?? null;
+
+  // Load the account list on login, merging in what was saved as a guest,
+  // and fall back to the guest list on logout
+  useEffect(() => {
+    if (authState.isLoading) return;
+
+    const syncId = ++syncIdRef.current;
+    const guestProducts = readGuestProducts();
+    guestChangedRef.current = false;
+
+    if (userId === null) {
+      dispatch({ type: 'SET_PRODUCTS', payload: guestProducts });
+      return;
+    }
+
+    const syncAccount = async () => {
+      try {
+        dispatch({ type: 'SET_ERROR', payload: null });
+        dispatch({ type: 'SET_SYNCING', payload: true });
+        const products = guestProducts.length > 0
+          ? await savedItemsApi.mergeItems(guestProducts.map(product => product.id))
+          : await savedItemsApi.getSavedItems();
+
+        // The guest list now lives in the account
+        removeItem(GUEST_STORAGE_KEY);
+        if (syncId === syncIdRef.current) {
+          dispatch({ type: 'SET_PRODUCTS', payload: products });
+        }
+      } catch (error) {
+        console.error('Failed to load saved products:', error);
+        if (syncId === syncIdRef.current) {
+          dispatch({ type: 'SET_ERROR', payload: apiUtils.getErrorMessage(error) });
+        }
+      }
+    };
+
+    syncAccount();
+  }, [userId, authState.isLoading]);
+
+  useEffect(() => {
+    if (!guestChangedRef.current) return;
+    guestChangedRef.current = false;
+    writeJson(GUEST_STORAGE_KEY, state.products);
+  }, [state.products]);
+
+  const isSaved = (productId: string) => state.products.some(product => product.id === productId);
+
+  // Updates the list right away and undoes the change if the account can't be updated
+  const toggleSaved = async (product: Product) => {
+    const wasSaved = isSaved(product.id);
+
+    dispatch(wasSaved
+      ? { type: 'REMOVE_PRODUCT', payload: product.id }
+      : { type: 'ADD_PRODUCT', payload: product });
+
+    if (!authState.isAuthenticated) {
+      guestChangedRef.current = true;
+      return;
+    }
+
+    try {
+      if (wasSaved) {
+        await savedItemsApi.removeItem(product.id);
+      } else {
+        await savedItemsApi.saveItem(product.id);
+      }
+    } catch (error) {
+      dispatch(wasSaved
+        ? { type: 'ADD_PRODUCT', payload: product }
+        : { type: 'REMOVE_PRODUCT', payload: product.id });
+      throw error;
+    }
+  };
+
+  return (
+    <SavedProductsContext.Provider
+      value={{
+        state,
+        isSaved,
+        toggleSaved,
+      }}
+    >
+      {children}
+    </SavedProductsContext.Provider>
+  );
+};
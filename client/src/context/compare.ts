@@ -0,0 +1,20 @@
+import { createContext } from 'react';
+import type { Product } from '../components/ProductCard';
+
+// The comparison table has room for this many products
+export const MAX_COMPARE_PRODUCTS = 4;
+
+// Types
+export interface CompareState {
+  products: Product[];
+}
+
+// Context, provided by CompareProvider
+export const CompareContext = createContext<{
+  state: CompareState;
+  isCompared: (productId: string) => boolean;
+  isFull: boolean;
+  toggleProduct: (product: Product) => void;
+  removeProduct: (productId: string) => void;
+  clear: () => void;
+} | null>(null);
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import type { Product } from '../components/ProductCard';
+
+// Types
+export interface SavedProductsState {
+  products: Product[]; // Most recently saved first
+  isSyncing: boolean;
+  error: string | null; // Loading the account list failed
+}
+
+// Context, provided by SavedProductsProvider
+export const SavedProductsContext = createContext<{
+  state: SavedProductsState;
+  isSaved: (productId: string) => boolean;
+  toggleSaved: (product: Product) => Promise<void>;
+} | null>(null);
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { CompareContext } from '../context/compare';
+
+// Products picked for side-by-side comparison
+export const useCompare = () => {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error('useCompare must be used within a CompareProvider');
+  }
+  return context;
+};
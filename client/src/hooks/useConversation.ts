@@ -0,0 +1,111 @@
+import { useState, useRef } from 'react';
+import type { Product } from '../components/ProductCard';
+import { productApi, apiUtils, type SearchOptions } from '../services/api';
+import { interpretMessage, type ConversationContext } from '../utils/conversation';
+
+// Results fetched for each chat turn
+const TURN_RESULTS_LIMIT = 12;
+
+export interface ConversationTurn {
+  id: number;
+  message: string;
+  type: 'search' | 'compare';
+  status: 'loading' | 'done' | 'error';
+  options: SearchOptions; // Search this turn ran, or refined for comparisons
+  refinements: string[]; // What the message changed compared to the turn it followed
+  products: Product[];
+  compared?: Product[]; // Products picked by a comparison message
+  totalResults?: number;
+  error?: string;
+}
+
+// Multi-turn assistant state: every message refines the active turn, which is
+// the latest one unless the user jumps back to an earlier turn
+export const useConversation = () => {
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [activeTurnId, setActiveTurnId] = useState<number | null>(null);
+  const nextIdRef = useRef(1);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const activeTurn = turns.find(turn => turn.id === activeTurnId) || null;
+
+  const updateTurn = (id: number, changes: Partial<ConversationTurn>) => {
+    setTurns(prev => prev.map(turn => (turn.id === id ? { ...turn, ...changes } : turn)));
+  };
+
+  const sendMessage = async (message: string) => {
+    const text = message.trim();
+    if (!text) return;
+
+    const context: ConversationContext | null = activeTurn && activeTurn.status === 'done'
+      ? { options: activeTurn.options, products: activeTurn.products }
+      : null;
+    const intent = interpretMessage(text, context);
+    const id = nextIdRef.current++;
+
+    if (intent.type === 'compare' && context) {
+      setTurns(prev => [...prev, {
+        id,
+        message: text,
+        type: 'compare',
+        status: 'done',
+        options: context.options,
+        refinements: [],
+        products: context.products,
+        compared: intent.products,
+      }]);
+      setActiveTurnId(id);
+      return;
+    }
+    if (intent.type !== 'search') return;
+
+    // A new message replaces a search that is still running
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setTurns(prev => [...prev, {
+      id,
+      message: text,
+      type: 'search',
+      status: 'loading',
+      options: intent.options,
+      refinements: intent.refinements,
+      products: [],
+    }]);
+    setActiveTurnId(id);
+
+    try {
+      const result = await productApi.aiSearch(
+        { ...intent.options, limit: TURN_RESULTS_LIMIT },
+        { signal: controller.signal }
+      );
+      updateTurn(id, { status: 'done', products: result.products, totalResults: result.totalResults });
+    } catch (err) {
+      if (apiUtils.isCancelledError(err)) {
+        updateTurn(id, { status: 'error', error: 'Cancelled by a newer message.' });
+        return;
+      }
+      console.error('Error in assistant search:', err);
+      updateTurn(id, { status: 'error', error: apiUtils.getErrorMessage(err) });
+    }
+  };
+
+  const selectTurn = (id: number) => {
+    setActiveTurnId(id);
+  };
+
+  const resetConversation = () => {
+    controllerRef.current?.abort();
+    setTurns([]);
+    setActiveTurnId(null);
+  };
+
+  return {
+    turns,
+    activeTurn,
+    sendMessage,
+    selectTurn,
+    resetConversation,
+  };
+};
@@ -0,0 +1,55 @@
+import { renderHook } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useGuestSearchHistory } from './useGuestSearchHistory';
+import { readLocalHistory } from '../utils/localHistory';
+
+const search = (query: string) => ({
+  query,
+  resultsCount: 3,
+  executionTimeMs: 150,
+  success: true,
+  errorType: null,
+  filters: {},
+  sortBy: 'relevance',
+});
+
+const renderGuestHistory = (auth: { isAuthenticated: boolean; isLoading: boolean }) => {
+  return renderHook(props => useGuestSearchHistory(props), { initialProps: auth });
+};
+
+describe('useGuestSearchHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('records searches only while signed out', () => {
+    const { result, rerender } = renderGuestHistory({ isAuthenticated: false, isLoading: false });
+    result.current.recordSearch(search('desk lamp'));
+
+    rerender({ isAuthenticated: true, isLoading: false });
+    result.current.recordSearch(search('office chair'));
+
+    expect(readLocalHistory().map(item => item.query)).toEqual(['desk lamp']);
+  });
+
+  it('URL-restored search during session check is not recorded locally', () => {
+    const { result, rerender } = renderGuestHistory({ isAuthenticated: false, isLoading: true });
+    const { recordSearch } = result.current; // The callback of the render that started the search
+
+    recordSearch(search('desk lamp'));
+    expect(readLocalHistory()).toEqual([]);
+
+    rerender({ isAuthenticated: true, isLoading: false });
+    recordSearch(search('office chair'));
+    expect(readLocalHistory()).toEqual([]);
+  });
+
+  it('records searches from the session check once nobody turns out to be signed in', () => {
+    const { result, rerender } = renderGuestHistory({ isAuthenticated: false, isLoading: true });
+    result.current.recordSearch(search('desk lamp'));
+
+    rerender({ isAuthenticated: false, isLoading: false });
+
+    expect(readLocalHistory().map(item => item.query)).toEqual(['desk lamp']);
+  });
+});
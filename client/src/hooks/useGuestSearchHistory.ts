@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import type { SearchHistoryImportItem } from '../services/api';
+import { recordLocalSearch } from '../utils/localHistory';
+
+type GuestSearch = Omit<SearchHistoryImportItem, 'createdAt'>;
+
+interface GuestSearchAuth {
+  isAuthenticated: boolean;
+  isLoading: boolean; // The session check on page load is still running
+}
+
+// The server only records searches of signed-in users; guests keep theirs on
+// this device. Searches that finish during the session check, such as one
+// restored from the URL, wait until it is known whether anyone signed in.
+export const useGuestSearchHistory = ({ isAuthenticated, isLoading }: GuestSearchAuth) => {
+  // Read when a response arrives, not when its request started
+  const authRef = useRef({ isAuthenticated, isLoading });
+  const waitingRef = useRef<{ search: GuestSearch; finishedAt: Date }[]>([]);
+
+  useEffect(() => {
+    authRef.current = { isAuthenticated, isLoading };
+    if (isLoading) return;
+
+    const waiting = waitingRef.current;
+    waitingRef.current = [];
+    if (!isAuthenticated) {
+      waiting.forEach(({ search, finishedAt }) => recordLocalSearch(search, finishedAt));
+    }
+  }, [isAuthenticated, isLoading]);
+
+  const recordSearch = (search: GuestSearch) => {
+    if (authRef.current.isLoading) {
+      waitingRef.current.push({ search, finishedAt: new Date() });
+    } else if (!authRef.current.isAuthenticated) {
+      recordLocalSearch(search);
+    }
+  };
+
+  return { recordSearch };
+};
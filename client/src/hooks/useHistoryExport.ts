@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { searchHistoryApi, apiUtils, type SearchHistoryOptions } from '../services/api';
+import { downloadHistoryExport, type HistoryExportFormat } from '../utils/historyExport';
+import type { HistorySource } from '../utils/localHistory';
+
+export interface HistoryExportProgress {
+  loaded: number;
+  total: number;
+}
+
+// Pages through the whole search history matching the given options and
+// downloads it as one file. Running exports can be cancelled.
+export const useHistoryExport = () => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<HistoryExportProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop exporting when the component using the hook goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const finish = (controller: AbortController) => {
+    if (controllerRef.current !== controller) return;
+    controllerRef.current = null;
+    setIsExporting(false);
+    setProgress(null);
+  };
+
+  const exportHistory = async (
+    options: Omit<SearchHistoryOptions, 'page' | 'limit'>,
+    format: HistoryExportFormat,
+    source: HistorySource = searchHistoryApi
+  ) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsExporting(true);
+    setProgress(null);
+    setError(null);
+
+    try {
+      const items = await source.getAllHistory(options, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+      downloadHistoryExport(items, format);
+    } catch (err) {
+      if (!apiUtils.isCancelledError(err)) {
+        console.error('Error exporting search history:', err);
+        setError('Failed to export search history');
+      }
+    } finally {
+      finish(controller);
+    }
+  };
+
+  const cancelExport = () => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    finish(controller);
+  };
+
+  return {
+    isExporting,
+    progress,
+    error,
+    exportHistory,
+    cancelExport,
+  };
+};
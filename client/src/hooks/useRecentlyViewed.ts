@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import type { Product } from '../components/ProductCard';
+import { readJson, writeJson, removeItem } from '../utils/storage';
+
+// Oldest products drop off the rail after this many
+export const RECENTLY_VIEWED_LIMIT = 12;
+
+const STORAGE_PREFIX = 'smart-product-assistant:recently-viewed';
+
+const readProducts = (storageKey: string): Product[] => {
+  const stored = readJson<unknown>(storageKey, []);
+  return Array.isArray(stored) ? (stored as Product[]).slice(0, RECENTLY_VIEWED_LIMIT) : [];
+};
+
+// Products the user opened, most recent first. Each signed-in user gets their
+// own list on this device; signed-out visits share a guest list.
+export const useRecentlyViewed = (userId: number | null) => {
+  const storageKey = `${STORAGE_PREFIX}:${userId ?? 'guest'}`;
+  const [products, setProducts] = useState<Product[]>(() => readProducts(storageKey));
+
+  // Switch lists when the user signs in or out
+  useEffect(() => {
+    setProducts(readProducts(storageKey));
+  }, [storageKey]);
+
+  const addProduct = (product: Product) => {
+    // The match score and AI explanation belong to the search it was opened from
+    const viewed: Product = { ...product, relevanceScore: undefined, aiExplanation: undefined };
+    const next = [viewed, ...products.filter(item => item.id !== product.id)].slice(0, RECENTLY_VIEWED_LIMIT);
+    setProducts(next);
+    writeJson(storageKey, next);
+  };
+
+  const clear = () => {
+    setProducts([]);
+    removeItem(storageKey);
+  };
+
+  return { products, addProduct, clear };
+};
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { SavedProductsContext } from '../context/savedProducts';
+
+// Products saved by the user, kept on this device while signed out
+export const useSavedProducts = () => {
+  const context = useContext(SavedProductsContext);
+  if (!context) {
+    throw new Error('useSavedProducts must be used within a SavedProductsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Product } from '../components/ProductCard';
+import { productApi, apiUtils } from '../services/api';
+import { readJson, writeJson } from '../utils/storage';
+import {
+  countNewResults,
+  findSavedSearch,
+  getSavedSearchKey,
+  type SavedSearch,
+  type SavedSearchCriteria
+} from '../utils/savedSearches';
+
+const STORAGE_PREFIX = 'smart-product-assistant:saved-searches';
+
+const readSavedSearches = (storageKey: string): SavedSearch[] => {
+  const stored = readJson<unknown>(storageKey, []);
+  return Array.isArray(stored) ? stored as SavedSearch[] : [];
+};
+
+interface SavedSearchesOptions {
+  pageSize: number; // Size of the first page that runs are compared on
+}
+
+// Pinned searches of the current user on this device, and how many new
+// results each one has compared with its last run
+export const useSavedSearches = (userId: number | null, { pageSize }: SavedSearchesOptions) => {
+  const storageKey = `${STORAGE_PREFIX}:${userId ?? 'guest'}`;
+  // The list is stored together with the key it was read from, so switching
+  // users never writes one user's list under another's key
+  const [stored, setStored] = useState(() => ({ key: storageKey, searches: readSavedSearches(storageKey) }));
+  const [newResultCounts, setNewResultCounts] = useState<Record<string, number>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastCheckedAt, setLastCheckedAt] = useState<string | null>(null);
+  const checkControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    checkControllerRef.current?.abort();
+    setStored({ key: storageKey, searches: readSavedSearches(storageKey) });
+    setNewResultCounts({});
+    setIsChecking(false);
+    setLastCheckedAt(null);
+  }, [storageKey]);
+
+  useEffect(() => {
+    writeJson(stored.key, stored.searches);
+  }, [stored]);
+
+  // Stop checking when the component using the hook goes away
+  useEffect(() => () => checkControllerRef.current?.abort(), []);
+
+  const savedSearches = stored.searches;
+
+  const updateSearches = (update: (searches: SavedSearch[]) => SavedSearch[]) => {
+    setStored(prev => ({ ...prev, searches: update(prev.searches) }));
+  };
+
+  const findSearch = (criteria: SavedSearchCriteria) => findSavedSearch(savedSearches, criteria);
+
+  const saveSearch = (criteria: SavedSearchCriteria, firstPage: Product[]) => {
+    const now = new Date().toISOString();
+    const key = getSavedSearchKey(criteria);
+    updateSearches(searches => [
+      {
+        id: `${Date.now()}`,
+        query: criteria.query.trim(),
+        filters: criteria.filters,
+        sortBy: criteria.sortBy,
+        createdAt: now,
+        lastRunAt: now,
+        lastResultIds: firstPage.map(product => product.id),
+      },
+      ...searches.filter(search => getSavedSearchKey(search) !== key),
+    ]);
+  };
+
+  const removeSearch = (id: string) => {
+    updateSearches(searches => searches.filter(search => search.id !== id));
+  };
+
+  // Remember the first page of a fresh run of a saved search
+  const recordRun = (criteria: SavedSearchCriteria, firstPage: Product[]) => {
+    const key = getSavedSearchKey(criteria);
+    const match = savedSearches.find(search => getSavedSearchKey(search) === key);
+    if (!match) return;
+
+    updateSearches(searches => searches.map(search => (search.id === match.id
+      ? { ...search, lastRunAt: new Date().toISOString(), lastResultIds: firstPage.map(product => product.id) }
+      : search)));
+    setNewResultCounts(prev => ({ ...prev, [match.id]: 0 }));
+  };
+
+  // Run every saved search in the background and count results that are new
+  // since its last run. Searches that fail are left without a count.
+  // Each check costs one AI search per saved search, and each of those is
+  // recorded in the search history, so it only runs when the user asks.
+  const checkForChanges = async () => {
+    checkControllerRef.current?.abort();
+    const controller = new AbortController();
+    checkControllerRef.current = controller;
+    setIsChecking(true);
+    setLastCheckedAt(new Date().toISOString());
+
+    for (const search of savedSearches) {
+      try {
+        const { products } = await productApi.aiSearch(
+          { query: search.query, filters: search.filters, sortBy: search.sortBy, page: 1, limit: pageSize },
+          { signal: controller.signal }
+        );
+        const count = countNewResults(search.lastResultIds, products.map(product => product.id));
+        setNewResultCounts(prev => ({ ...prev, [search.id]: count }));
+      } catch (err) {
+        if (apiUtils.isCancelledError(err)) return;
+        console.warn(`Could not check saved search "${search.query}":`, err);
+      }
+    }
+
+    if (checkControllerRef.current === controller) {
+      checkControllerRef.current = null;
+      setIsChecking(false);
+    }
+  };
+
+  return {
+    savedSearches,
+    newResultCounts,
+    isChecking,
+    lastCheckedAt,
+    findSearch,
+    saveSearch,
+    removeSearch,
+    recordRun,
+    checkForChanges,
+  };
+};
@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef } from 'react';
+import { productApi, apiUtils, type SearchHistoryItem } from '../services/api';
+import { toSearchOptions } from '../utils/filters';
+
+// What happened when a failed search was run again
+export type RetryOutcome =
+  | { status: 'pending' }
+  | { status: 'success'; resultsCount: number }
+  | { status: 'failed'; message: string };
+
+// Runs failed history entries again with their original filters and sort
+// order and keeps the outcome of each attempt by history entry id
+export const useSearchRetry = () => {
+  const [outcomes, setOutcomes] = useState<Record<number, RetryOutcome>>({});
+  const [isRetryingAll, setIsRetryingAll] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop retrying when the component using the hook goes away
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const setOutcome = (id: number, outcome: RetryOutcome) => {
+    setOutcomes(prev => ({ ...prev, [id]: outcome }));
+  };
+
+  // Resolves to false when the retry was cancelled
+  const retry = async (item: SearchHistoryItem, signal?: AbortSignal): Promise<boolean> => {
+    setOutcome(item.id, { status: 'pending' });
+    try {
+      const result = await productApi.aiSearch({ ...toSearchOptions(item), page: 1 }, { signal });
+      setOutcome(item.id, { status: 'success', resultsCount: result.totalResults });
+    } catch (err) {
+      if (apiUtils.isCancelledError(err)) {
+        setOutcomes(prev => {
+          const next = { ...prev };
+          delete next[item.id];
+          return next;
+        });
+        return false;
+      }
+      setOutcome(item.id, { status: 'failed', message: apiUtils.getErrorMessage(err) });
+    }
+    return true;
+  };
+
+  // One search after another, so a struggling service is not flooded
+  const retryAll = async (items: SearchHistoryItem[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRetryingAll(true);
+
+    for (const item of items) {
+      // When cancelled, the remaining searches are left as they were
+      if (!await retry(item, controller.signal)) break;
+    }
+
+    if (controllerRef.current === controller) {
+      controllerRef.current = null;
+      setIsRetryingAll(false);
+    }
+  };
+
+  const cancelRetryAll = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRetryingAll(false);
+  };
+
+  const clearOutcomes = () => setOutcomes({});
+
+  return {
+    outcomes,
+    isRetryingAll,
+    retry,
+    retryAll,
+    cancelRetryAll,
+    clearOutcomes,
+  };
+};
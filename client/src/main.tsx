@@ -1,13 +1,22 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import { AuthProvider } from './context/AuthContext'
+import { CompareProvider } from './context/CompareContext'
+import { SavedProductsProvider } from './context/SavedProductsContext'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <SavedProductsProvider>
+          <CompareProvider>
+            <App />
+          </CompareProvider>
+        </SavedProductsProvider>
+      </AuthProvider>
+    </BrowserRouter>
   </StrictMode>,
 )
@@ -1,5 +1,7 @@
 import axios from 'axios';
 import type { Product } from '../components';
+import { toSearchFilters, toSortOption } from '../utils/filters';
+import { normalizeRelevanceScore } from '../utils/relevance';
 
 // Backend product format
 interface BackendProduct {
@@ -25,6 +27,9 @@ const transformProduct = (backendProduct: BackendProduct): Product => ({
   image: backendProduct.imageUrl,
   currency: 'USD',
   aiExplanation: backendProduct.ai_explanation,
+  category: backendProduct.category,
+  attributes: backendProduct.attributes,
+  relevanceScore: normalizeRelevanceScore(backendProduct.ai_relevance_score),
 });
 
 // Create axios instance with base configuration
@@ -56,6 +61,12 @@ api.interceptors.response.use(
     return response;
   },
   (error) => {
+    // Cancelled requests are expected, e.g. when a newer search replaces one
+    if (axios.isCancel(error)) {
+      console.log('API Request cancelled');
+      return Promise.reject(error);
+    }
+
     console.error('API Response Error:', error.response?.status, error.message);
     
     // Handle common error cases
@@ -79,6 +90,16 @@ interface BackendResponse<T> {
   message?: string;
 }
 
+// Pagination block returned by paginated endpoints
+interface PaginationInfo {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
 // Search response format (different from other endpoints)
 interface SearchResponse {
   success: boolean;
@@ -86,14 +107,7 @@ interface SearchResponse {
   results: BackendProduct[];
   filters: Record<string, unknown>;
   sortBy: string;
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-  };
+  pagination: PaginationInfo;
   total_results: number;
   execution_time_ms: number;
 }
@@ -115,14 +129,20 @@ interface SearchHistoryItem {
 interface SearchHistoryResponse {
   success: boolean;
   data: SearchHistoryItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-  };
+  pagination: PaginationInfo;
+}
+
+interface DeleteHistoryResponse {
+  success: boolean;
+  deletedCount: number;
+}
+
+// A search run before signing in, added to the account history as it was
+type SearchHistoryImportItem = Omit<SearchHistoryItem, 'id' | 'updatedAt'>;
+
+interface ImportHistoryResponse {
+  success: boolean;
+  importedCount: number;
 }
 
 interface PopularSearchItem {
@@ -147,12 +167,16 @@ interface SearchHistoryOptions {
 }
 
 // Search interfaces
+
+// One selected attribute value, or a list when several are selected
+type AttributeFilterValue = string | string[];
+
 interface SearchFilters {
   category?: string;
   brand?: string;
   minPrice?: number;
   maxPrice?: number;
-  attributes?: Record<string, string>;
+  attributes?: Record<string, AttributeFilterValue>;
 }
 
 interface SearchOptions {
@@ -163,33 +187,103 @@ interface SearchOptions {
   limit?: number;
 }
 
+// AI search results for one page, with the metadata the backend reports
+interface SearchResult {
+  products: Product[];
+  pagination: PaginationInfo;
+  query: string;
+  totalResults: number;
+  executionTimeMs: number;
+  appliedFilters: SearchFilters; // Filters the server actually applied
+  appliedSortBy: NonNullable<SearchOptions['sortBy']>;
+}
+
+// One facet value and the number of products that have it
+interface FacetValue {
+  value: string;
+  count: number;
+}
+
+// Category and brand values available for a query and filters
+interface CatalogFacets {
+  categories: FacetValue[];
+  brands: FacetValue[];
+}
+
+// Per-request options; aborting the signal cancels the request
+interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+interface AllHistoryOptions extends RequestOptions {
+  pageSize?: number;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// Add filters to query string params, attributes as `attributes[key]=value`,
+// repeated for each value when several are selected
+const appendFilterParams = (params: URLSearchParams, filters?: SearchFilters) => {
+  if (filters?.category) params.append('category', filters.category);
+  if (filters?.brand) params.append('brand', filters.brand);
+  if (filters?.minPrice) params.append('minPrice', filters.minPrice.toString());
+  if (filters?.maxPrice) params.append('maxPrice', filters.maxPrice.toString());
+  Object.entries(filters?.attributes || {}).forEach(([key, value]) => {
+    [value].flat().forEach(item => params.append(`attributes[${key}]`, item));
+  });
+};
+
 // Product API functions
 export const productApi = {
   // Get all products with optional filtering and sorting
-  getAllProducts: async (filters?: SearchFilters, sortBy?: SearchOptions['sortBy']): Promise<Product[]> => {
+  getAllProducts: async (
+    filters?: SearchFilters,
+    sortBy?: SearchOptions['sortBy'],
+    { signal }: RequestOptions = {}
+  ): Promise<Product[]> => {
     const params = new URLSearchParams();
     
-    if (filters?.category) params.append('category', filters.category);
-    if (filters?.brand) params.append('brand', filters.brand);
-    if (filters?.minPrice) params.append('minPrice', filters.minPrice.toString());
-    if (filters?.maxPrice) params.append('maxPrice', filters.maxPrice.toString());
+    appendFilterParams(params, filters);
     if (sortBy && sortBy !== 'relevance') params.append('sortBy', sortBy);
     
     const url = params.toString() ? `/products?${params.toString()}` : '/products';
-    const response = await api.get<BackendResponse<BackendProduct[]>>(url);
+    const response = await api.get<BackendResponse<BackendProduct[]>>(url, { signal });
     return response.data.data.map(transformProduct);
   },
 
   // Search products (legacy GET endpoint)
-  searchProducts: async (query: string): Promise<Product[]> => {
-    const response = await api.get<BackendResponse<BackendProduct[]>>(`/products/search?q=${encodeURIComponent(query)}`);
+  searchProducts: async (query: string, { signal }: RequestOptions = {}): Promise<Product[]> => {
+    const response = await api.get<BackendResponse<BackendProduct[]>>(`/products/search?q=${encodeURIComponent(query)}`, { signal });
     return response.data.data.map(transformProduct);
   },
 
   // AI-powered search with recommendations (POST endpoint)
-  aiSearch: async (options: SearchOptions): Promise<Product[]> => {
-    const response = await api.post<SearchResponse>('/search', options);
-    return response.data.results.map(transformProduct);
+  aiSearch: async (options: SearchOptions, { signal }: RequestOptions = {}): Promise<SearchResult> => {
+    const response = await api.post<SearchResponse>('/search', options, { signal });
+    const { data } = response;
+    return {
+      products: data.results.map(transformProduct),
+      pagination: data.pagination,
+      query: data.query ?? options.query,
+      totalResults: data.total_results ?? data.pagination?.total ?? data.results.length,
+      executionTimeMs: data.execution_time_ms,
+      appliedFilters: toSearchFilters(data.filters),
+      appliedSortBy: toSortOption(data.sortBy),
+    };
+  },
+
+  // Get category and brand counts for the catalog, or for a search when a query is given
+  getFacets: async (options: { query?: string; filters?: SearchFilters } = {}): Promise<CatalogFacets> => {
+    const params = new URLSearchParams();
+
+    if (options.query) params.append('q', options.query);
+    appendFilterParams(params, options.filters);
+
+    const url = params.toString() ? `/products/facets?${params.toString()}` : '/products/facets';
+    const response = await api.get<BackendResponse<CatalogFacets>>(url);
+    return {
+      categories: response.data.data.categories || [],
+      brands: response.data.data.brands || [],
+    };
   },
 
   // Get product by ID
@@ -215,7 +309,7 @@ export const productApi = {
 // Search History API functions
 export const searchHistoryApi = {
   // Get search history with pagination and filtering
-  getHistory: async (options: SearchHistoryOptions = {}): Promise<SearchHistoryResponse> => {
+  getHistory: async (options: SearchHistoryOptions = {}, { signal }: RequestOptions = {}): Promise<SearchHistoryResponse> => {
     const params = new URLSearchParams();
     
     if (options.page) params.append('page', options.page.toString());
@@ -225,7 +319,46 @@ export const searchHistoryApi = {
     if (options.startDate) params.append('startDate', options.startDate);
     if (options.endDate) params.append('endDate', options.endDate);
 
-    const response = await api.get<SearchHistoryResponse>(`/search/history?${params.toString()}`);
+    const response = await api.get<SearchHistoryResponse>(`/search/history?${params.toString()}`, { signal });
+    return response.data;
+  },
+
+  // Get every history entry matching the options, one page after another
+  getAllHistory: async (
+    options: Omit<SearchHistoryOptions, 'page' | 'limit'> = {},
+    { signal, pageSize = 100, onProgress }: AllHistoryOptions = {}
+  ): Promise<SearchHistoryItem[]> => {
+    const items: SearchHistoryItem[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await searchHistoryApi.getHistory({ ...options, page, limit: pageSize }, { signal });
+      items.push(...response.data);
+      onProgress?.(items.length, Math.max(response.pagination.total, items.length));
+      if (!response.pagination.hasNextPage || response.data.length === 0) return items;
+    }
+  },
+
+  // Delete a single search history entry
+  deleteHistoryItem: async (id: number): Promise<DeleteHistoryResponse> => {
+    const response = await api.delete<DeleteHistoryResponse>(`/search/history/${id}`);
+    return response.data;
+  },
+
+  // Delete several search history entries at once
+  deleteHistoryItems: async (ids: number[]): Promise<DeleteHistoryResponse> => {
+    const response = await api.post<DeleteHistoryResponse>('/search/history/delete', { ids });
+    return response.data;
+  },
+
+  // Delete the whole search history of the current user
+  clearHistory: async (): Promise<DeleteHistoryResponse> => {
+    const response = await api.delete<DeleteHistoryResponse>('/search/history');
+    return response.data;
+  },
+
+  // Add searches run before signing in to the history of the current user
+  importHistory: async (items: SearchHistoryImportItem[]): Promise<ImportHistoryResponse> => {
+    const response = await api.post<ImportHistoryResponse>('/search/history/import', { items });
     return response.data;
   },
 
@@ -236,6 +369,43 @@ export const searchHistoryApi = {
   },
 };
 
+// Saved products of the signed-in user, most recently saved first
+interface SavedItemsResponse {
+  success: boolean;
+  data: {
+    productId: number;
+    product: BackendProduct;
+    createdAt: string;
+  }[];
+}
+
+// Saved Items API functions
+export const savedItemsApi = {
+  // Get the saved products of the current user
+  getSavedItems: async (): Promise<Product[]> => {
+    const response = await api.get<SavedItemsResponse>('/saved-items');
+    return response.data.data.map(item => transformProduct(item.product));
+  },
+
+  // Save a product
+  saveItem: async (productId: string): Promise<void> => {
+    await api.post('/saved-items', { productId: Number(productId) });
+  },
+
+  // Remove a saved product
+  removeItem: async (productId: string): Promise<void> => {
+    await api.delete(`/saved-items/${productId}`);
+  },
+
+  // Add products saved before signing in; returns the combined list
+  mergeItems: async (productIds: string[]): Promise<Product[]> => {
+    const response = await api.post<SavedItemsResponse>('/saved-items/merge', {
+      productIds: productIds.map(Number),
+    });
+    return response.data.data.map(item => transformProduct(item.product));
+  },
+};
+
 // General API utilities
 export const apiUtils = {
   // Check if API is available
@@ -248,6 +418,30 @@ export const apiUtils = {
     }
   },
 
+  // Check whether a request failed because it was cancelled
+  isCancelledError: (error: unknown): boolean => {
+    return axios.isCancel(error);
+  },
+
+  // Check whether an error is a 404 from the backend
+  isNotFoundError: (error: unknown): boolean => {
+    return axios.isAxiosError(error) && error.response?.status === 404;
+  },
+
+  // Classify a failed request with the error types the server records in search history
+  getErrorType: (error: unknown): string => {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      if (error.code === 'ECONNABORTED') return 'TIMEOUT';
+      if (error.code === 'ERR_NETWORK') return 'NETWORK_ERROR';
+      if (status === 429) return 'RATE_LIMITED';
+      if (status === 400) return 'VALIDATION_ERROR';
+      if (status === 503) return 'AI_SERVICE_UNAVAILABLE';
+      if (status && status >= 500) return 'SERVER_ERROR';
+    }
+    return 'UNKNOWN';
+  },
+
   // Handle API errors with user-friendly messages
   getErrorMessage: (error: unknown): string => {
     if (axios.isAxiosError(error)) {
@@ -355,11 +549,19 @@ export const authApi = {
 export type { 
   SearchHistoryItem, 
   SearchHistoryOptions, 
+  SearchHistoryImportItem,
   PopularSearchItem, 
   AuthResponse, 
   SessionResponse,
   SearchFilters,
-  SearchOptions
+  AttributeFilterValue,
+  SearchOptions,
+  SearchResult,
+  PaginationInfo,
+  FacetValue,
+  CatalogFacets,
+  RequestOptions,
+  AllHistoryOptions
 };
 
 export default api; 
\ No newline at end of file
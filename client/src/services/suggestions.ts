@@ -0,0 +1,77 @@
+import { productApi, searchHistoryApi, type RequestOptions } from './api';
+
+export type SuggestionSource = 'history' | 'popular' | 'product';
+
+export interface SearchSuggestion {
+  text: string;
+  source: SuggestionSource;
+}
+
+interface SuggestionOptions extends RequestOptions {
+  includeHistory?: boolean; // Only signed-in users have a search history
+  limit?: number;
+}
+
+// Popular terms change slowly, so they are fetched once per page load
+let popularTermsPromise: Promise<string[]> | null = null;
+
+const getPopularTerms = (): Promise<string[]> => {
+  if (!popularTermsPromise) {
+    popularTermsPromise = searchHistoryApi.getPopularSearches(50, 30)
+      .then(response => response.data.map(item => item.query))
+      .catch(err => {
+        popularTermsPromise = null; // Try again next time
+        throw err;
+      });
+  }
+  return popularTermsPromise;
+};
+
+const matchesQuery = (text: string, query: string) => text.toLowerCase().includes(query.toLowerCase());
+
+// Product names where the query is the start of a word, e.g. "head" in "Sony Headphones"
+const startsWithQuery = (text: string, query: string) => {
+  const name = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  return name.startsWith(lowerQuery) || name.includes(` ${lowerQuery}`);
+};
+
+// Autocomplete suggestions for a partial query: the user's own past searches
+// first, then popular searches, then matching product names. A source that
+// fails is skipped so the others still show up.
+export const fetchSuggestions = async (
+  query: string,
+  { signal, includeHistory = false, limit = 8 }: SuggestionOptions = {}
+): Promise<SearchSuggestion[]> => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const [history, popular, products] = await Promise.allSettled([
+    includeHistory
+      ? searchHistoryApi.getHistory({ query: trimmed, limit: 5, successOnly: true }, { signal })
+        .then(response => response.data.map(item => item.query))
+      : Promise.resolve([]),
+    getPopularTerms().then(terms => terms.filter(term => matchesQuery(term, trimmed))),
+    productApi.searchProducts(trimmed, { signal })
+      .then(found => found.map(product => product.name).filter(name => startsWithQuery(name, trimmed))),
+  ]);
+
+  const valuesOf = (result: PromiseSettledResult<string[]>) => result.status === 'fulfilled' ? result.value : [];
+
+  const seen = new Set<string>();
+  const suggestions: SearchSuggestion[] = [];
+  const add = (texts: string[], source: SuggestionSource) => {
+    texts.forEach(text => {
+      const key = text.trim().toLowerCase();
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      suggestions.push({ text: text.trim(), source });
+    });
+  };
+
+  add(valuesOf(history), 'history');
+  add(valuesOf(popular), 'popular');
+  add(valuesOf(products), 'product');
+
+  return suggestions.slice(0, limit);
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAttributeKey,
+  formatAttributeValue,
+  getAttributeRows,
+  getHighlightAttributes
+} from './attributes';
+
+describe('attributes', () => {
+  it('turns keys into labels without their unit suffix', () => {
+    expect(formatAttributeKey('screen_size_inches')).toBe('Screen Size');
+    expect(formatAttributeKey('batteryLifeHours')).toBe('Battery Life');
+    expect(formatAttributeKey('color')).toBe('Color');
+  });
+
+  it('formats booleans, arrays, units and nested objects', () => {
+    expect(formatAttributeValue(true)).toBe('Yes');
+    expect(formatAttributeValue(false)).toBe('No');
+    expect(formatAttributeValue(null)).toBe('—');
+    expect(formatAttributeValue(['Black', 'Silver'])).toBe('Black, Silver');
+    expect(formatAttributeValue(1200, 'weight_g')).toBe('1,200 g');
+    expect(formatAttributeValue('256', 'storage_gb')).toBe('256 GB');
+    expect(formatAttributeValue({ value: 15.6, unit: 'in' })).toBe('15.6 in');
+    expect(formatAttributeValue({ width: 30, height: 20 })).toBe('Width: 30 · Height: 20');
+  });
+
+  it('builds group rows for nested attributes', () => {
+    expect(getAttributeRows({
+      brand: 'Sony',
+      dimensions: { width_cm: 20, depth_cm: 8 },
+    })).toEqual([
+      { key: 'brand', label: 'Brand', value: 'Sony', depth: 0, isGroup: false },
+      { key: 'dimensions', label: 'Dimensions', value: '', depth: 0, isGroup: true },
+      { key: 'dimensions.width_cm', label: 'Width', value: '20 cm', depth: 1, isGroup: false },
+      { key: 'dimensions.depth_cm', label: 'Depth', value: '8 cm', depth: 1, isGroup: false },
+    ]);
+  });
+
+  it('picks well-known, short attributes for compact lists', () => {
+    expect(getHighlightAttributes({
+      warranty: 'Two years limited manufacturer warranty',
+      wireless: true,
+      color: 'Black',
+      brand: 'Sony',
+      dimensions: { width_cm: 20 },
+    })).toEqual([
+      { key: 'brand', label: 'Brand', value: 'Sony' },
+      { key: 'color', label: 'Color', value: 'Black' },
+      { key: 'wireless', label: 'Wireless', value: 'Yes' },
+    ]);
+    expect(getHighlightAttributes(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+// Units inferred from the last word of an attribute key, e.g. `weight_kg`
+const UNIT_SUFFIXES: Record<string, string> = {
+  inches: '"',
+  inch: '"',
+  mm: ' mm',
+  cm: ' cm',
+  g: ' g',
+  kg: ' kg',
+  lb: ' lb',
+  lbs: ' lb',
+  oz: ' oz',
+  ml: ' ml',
+  l: ' L',
+  mb: ' MB',
+  gb: ' GB',
+  tb: ' TB',
+  mah: ' mAh',
+  w: ' W',
+  watts: ' W',
+  hz: ' Hz',
+  mp: ' MP',
+  hours: ' h',
+  hrs: ' h',
+};
+
+// Keys shown first in compact spec lists, in this order
+const HIGHLIGHT_KEYS = ['brand', 'color', 'colour', 'size', 'storage', 'capacity', 'material', 'model'];
+
+// Longer values don't fit the compact spec list on a card
+const MAX_HIGHLIGHT_LENGTH = 30;
+
+export interface AttributeRow {
+  key: string; // Dotted path for nested attributes
+  label: string;
+  value: string; // Empty for group rows of nested objects
+  depth: number;
+  isGroup: boolean;
+}
+
+const splitKey = (key: string): string[] => {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+};
+
+const getUnit = (key?: string): string | undefined => {
+  if (!key) return undefined;
+  const words = splitKey(key);
+  return words.length > 1 ? UNIT_SUFFIXES[words[words.length - 1].toLowerCase()] : undefined;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Turn an attribute key into a label: `screen_size_inches` -> `Screen Size`
+export const formatAttributeKey = (key: string): string => {
+  const words = splitKey(key);
+  const withoutUnit = getUnit(key) ? words.slice(0, -1) : words;
+  return withoutUnit
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const formatNumber = (value: number): string => {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+};
+
+// Format an attribute value for display; the key is used to infer units
+export const formatAttributeValue = (value: unknown, key?: string): string => {
+  if (value === null || value === undefined || value === '') return '—';
+
+  const unit = getUnit(key);
+
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return `${formatNumber(value)}${unit || ''}`;
+  if (typeof value === 'string') {
+    const isNumeric = value.trim() !== '' && Number.isFinite(Number(value));
+    return isNumeric && unit ? `${formatNumber(Number(value))}${unit}` : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(item => formatAttributeValue(item, key)).join(', ') : '—';
+  }
+
+  if (isPlainObject(value)) {
+    // Measurements like { value: 15.6, unit: 'in' }
+    if ('value' in value && typeof value.unit === 'string') {
+      return `${formatAttributeValue(value.value)} ${value.unit}`;
+    }
+    return Object.entries(value)
+      .map(([nestedKey, nestedValue]) => `${formatAttributeKey(nestedKey)}: ${formatAttributeValue(nestedValue, nestedKey)}`)
+      .join(' · ');
+  }
+
+  return String(value);
+};
+
+// Rows for a full spec table; nested objects become a group row followed by their entries
+export const getAttributeRows = (
+  attributes: Record<string, unknown> | undefined,
+  depth = 0,
+  parentKey = ''
+): AttributeRow[] => {
+  return Object.entries(attributes || {}).flatMap(([key, value]) => {
+    const path = parentKey ? `${parentKey}.${key}` : key;
+    const label = formatAttributeKey(key);
+
+    if (isPlainObject(value) && !('value' in value && typeof value.unit === 'string')) {
+      return [
+        { key: path, label, value: '', depth, isGroup: true },
+        ...getAttributeRows(value, depth + 1, path),
+      ];
+    }
+
+    return [{ key: path, label, value: formatAttributeValue(value, key), depth, isGroup: false }];
+  });
+};
+
+// A few short, well-known attributes for compact spec lists
+export const getHighlightAttributes = (
+  attributes: Record<string, unknown> | undefined,
+  limit = 3
+): { key: string; label: string; value: string }[] => {
+  const entries = Object.entries(attributes || {})
+    .filter(([, value]) => value !== null && value !== undefined && value !== '' && !isPlainObject(value))
+    .map(([key, value]) => ({ key, label: formatAttributeKey(key), value: formatAttributeValue(value, key) }))
+    .filter(({ value }) => value.length <= MAX_HIGHLIGHT_LENGTH);
+
+  const priority = (key: string) => {
+    const index = HIGHLIGHT_KEYS.indexOf(key.toLowerCase());
+    return index === -1 ? HIGHLIGHT_KEYS.length : index;
+  };
+
+  return entries
+    .sort((a, b) => priority(a.key) - priority(b.key))
+    .slice(0, limit);
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildComparisonRows } from './compare';
+import type { Product } from '../components/ProductCard';
+
+const makeProduct = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: `Product ${id}`,
+  price: 100,
+  description: '',
+  image: '',
+  ...overrides,
+});
+
+describe('buildComparisonRows', () => {
+  it('aligns price, category, attributes and AI explanations', () => {
+    const rows = buildComparisonRows([
+      makeProduct('1', { category: 'Electronics', attributes: { brand: 'Sony' }, aiExplanation: 'Great sound' }),
+      makeProduct('2', { category: 'Electronics', attributes: { color: 'Black' } }),
+    ]);
+
+    expect(rows.map(row => row.key)).toEqual(['price', 'category', 'brand', 'color', 'aiExplanation']);
+    expect(rows.find(row => row.key === 'brand')?.values).toEqual(['Sony', '—']);
+    expect(rows.find(row => row.key === 'aiExplanation')?.values).toEqual(['Great sound', '—']);
+  });
+
+  it('flags rows whose values differ', () => {
+    const rows = buildComparisonRows([
+      makeProduct('1', { category: 'Footwear', attributes: { size: 42 } }),
+      makeProduct('2', { category: 'Footwear', attributes: { size: 43 } }),
+    ]);
+
+    expect(rows.find(row => row.key === 'category')?.isDifferent).toBe(false);
+    expect(rows.find(row => row.key === 'size')?.isDifferent).toBe(true);
+  });
+
+  it('marks the lowest price and weight and the highest other numbers as best', () => {
+    const rows = buildComparisonRows([
+      makeProduct('1', { price: 80, attributes: { weight_g: 250, battery_life_hours: 30 } }),
+      makeProduct('2', { price: 120, attributes: { weight_g: 300, battery_life_hours: 40 } }),
+      makeProduct('3', { price: 80, attributes: { weight_g: 280, battery_life_hours: '40' } }),
+    ]);
+
+    expect(rows.find(row => row.key === 'price')?.bestIndices).toEqual([0, 2]);
+    expect(rows.find(row => row.key === 'weight_g')?.bestIndices).toEqual([0]);
+    expect(rows.find(row => row.key === 'battery_life_hours')?.bestIndices).toEqual([1, 2]);
+  });
+
+  it('has no best value when numbers are missing, equal or in different currencies', () => {
+    const rows = buildComparisonRows([
+      makeProduct('1', { currency: 'USD', attributes: { storage_gb: 128, ports: 2 } }),
+      makeProduct('2', { currency: 'EUR', price: 90, attributes: { ports: 2 } }),
+    ]);
+
+    expect(rows.find(row => row.key === 'price')?.bestIndices).toEqual([]);
+    expect(rows.find(row => row.key === 'storage_gb')?.bestIndices).toEqual([]);
+    expect(rows.find(row => row.key === 'ports')?.bestIndices).toEqual([]);
+  });
+
+  it('compares nested attributes by their full path', () => {
+    const rows = buildComparisonRows([
+      makeProduct('1', { attributes: { dimensions: { width_cm: 20 } } }),
+      makeProduct('2', { attributes: { dimensions: { width_cm: 25 } } }),
+    ]);
+
+    const width = rows.find(row => row.key === 'dimensions.width_cm');
+    expect(width?.label).toBe('Dimensions › Width');
+    expect(width?.values).toEqual(['20 cm', '25 cm']);
+  });
+});
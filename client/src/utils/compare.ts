@@ -0,0 +1,110 @@
+import type { Product } from '../components/ProductCard';
+import { formatAttributeKey, formatAttributeValue } from './attributes';
+
+export interface ComparisonRow {
+  key: string; // 'price', 'category', 'aiExplanation' or a dotted attribute path
+  label: string;
+  values: string[]; // One formatted value per product, '—' when missing
+  isDifferent: boolean;
+  bestIndices: number[]; // Products holding the best value; empty when there is no clear winner
+}
+
+// Numeric attributes where less is better; for any other number more is better
+const LOWER_IS_BETTER = /(price|cost|weight|mass|thickness|noise|latency|delay|charge_?time|charging_?time)/i;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Leaf attribute paths, e.g. `dimensions.width_cm`; measurements like
+// { value, unit } count as a single leaf
+const getLeafPaths = (attributes: Record<string, unknown> | undefined, parentKey = ''): string[] => {
+  return Object.entries(attributes || {}).flatMap(([key, value]) => {
+    const path = parentKey ? `${parentKey}.${key}` : key;
+    return isPlainObject(value) && !('value' in value && typeof value.unit === 'string')
+      ? getLeafPaths(value, path)
+      : [path];
+  });
+};
+
+const getByPath = (attributes: Record<string, unknown> | undefined, path: string): unknown => {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (isPlainObject(value) ? value[key] : undefined),
+    attributes
+  );
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  if (isPlainObject(value) && 'value' in value) return toNumber(value.value);
+  return undefined;
+};
+
+// Products holding the best number; only when every product has one and they differ
+const getBestIndices = (numbers: (number | undefined)[], lowerIsBetter: boolean): number[] => {
+  if (numbers.length < 2 || numbers.some(value => value === undefined)) return [];
+  const values = numbers as number[];
+  const best = lowerIsBetter ? Math.min(...values) : Math.max(...values);
+  if (values.every(value => value === best)) return [];
+  return values.flatMap((value, index) => (value === best ? [index] : []));
+};
+
+const isDifferent = (values: string[]) => new Set(values).size > 1;
+
+const getLabel = (path: string) => path.split('.').map(formatAttributeKey).join(' › ');
+
+// Align price, category, every attribute and the AI explanation of the
+// compared products into rows, flagging differences and the best value
+export const buildComparisonRows = (products: Product[]): ComparisonRow[] => {
+  const priceValues = products.map(product => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: product.currency || 'USD',
+  }).format(product.price));
+
+  // Prices in different currencies can't be ranked against each other
+  const currencies = new Set(products.map(product => product.currency || 'USD'));
+  const rows: ComparisonRow[] = [{
+    key: 'price',
+    label: 'Price',
+    values: priceValues,
+    isDifferent: isDifferent(priceValues),
+    bestIndices: currencies.size === 1 ? getBestIndices(products.map(product => product.price), true) : [],
+  }];
+
+  const categoryValues = products.map(product => product.category || '—');
+  rows.push({
+    key: 'category',
+    label: 'Category',
+    values: categoryValues,
+    isDifferent: isDifferent(categoryValues),
+    bestIndices: [],
+  });
+
+  const paths = [...new Set(products.flatMap(product => getLeafPaths(product.attributes)))];
+  paths.forEach(path => {
+    const key = path.split('.').pop() || path;
+    const raw = products.map(product => getByPath(product.attributes, path));
+    const values = raw.map(value => formatAttributeValue(value, key));
+    rows.push({
+      key: path,
+      label: getLabel(path),
+      values,
+      isDifferent: isDifferent(values),
+      bestIndices: getBestIndices(raw.map(toNumber), LOWER_IS_BETTER.test(key)),
+    });
+  });
+
+  if (products.some(product => product.aiExplanation)) {
+    const explanations = products.map(product => product.aiExplanation || '—');
+    rows.push({
+      key: 'aiExplanation',
+      label: 'AI Recommendation',
+      values: explanations,
+      isDifferent: isDifferent(explanations),
+      bestIndices: [],
+    });
+  }
+
+  return rows;
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { interpretMessage, type ConversationContext } from './conversation';
+import type { Product } from '../components/ProductCard';
+
+const product = (id: string, price: number, brand: string, category = 'Electronics'): Product => ({
+  id,
+  name: `${brand} ${id}`,
+  price,
+  description: '',
+  image: '',
+  category,
+  attributes: { brand },
+});
+
+const context: ConversationContext = {
+  options: { query: 'headphones', filters: { category: 'Electronics' }, sortBy: 'relevance', page: 2, limit: 12 },
+  products: [
+    product('1', 300, 'Sony'),
+    product('2', 200, 'Bose'),
+    product('3', 100, 'Sony'),
+  ],
+};
+
+describe('interpretMessage', () => {
+  it('starts a new search without context', () => {
+    expect(interpretMessage('  running shoes ', null)).toEqual({
+      type: 'search',
+      options: { query: 'running shoes', sortBy: 'relevance', page: 1 },
+      refinements: [],
+    });
+  });
+
+  it('lowers the price bound for "cheaper"', () => {
+    const intent = interpretMessage('cheaper', context);
+    expect(intent).toEqual({
+      type: 'search',
+      options: {
+        query: 'headphones',
+        filters: { category: 'Electronics', maxPrice: 200 },
+        sortBy: 'price_asc',
+        page: 1,
+        limit: 12,
+      },
+      refinements: ['Under $200'],
+    });
+  });
+
+  it('reads explicit price bounds', () => {
+    const intent = interpretMessage('between $50 and 150 please', context);
+    expect(intent.type === 'search' && intent.options.filters).toEqual({
+      category: 'Electronics',
+      minPrice: 50,
+      maxPrice: 150,
+    });
+  });
+
+  it('restricts to a brand using the spelling from the results', () => {
+    const intent = interpretMessage('only sony', context);
+    expect(intent.type === 'search' && intent.options.filters?.brand).toBe('Sony');
+    expect(intent.type === 'search' && intent.refinements).toEqual(['Brand: Sony']);
+  });
+
+  it('does not mistake "sort by price" for a brand', () => {
+    const intent = interpretMessage('sort by price', context);
+    expect(intent.type === 'search' && intent.options.filters?.brand).toBeUndefined();
+    expect(intent.type === 'search' && intent.options.sortBy).toBe('price_asc');
+  });
+
+  it('picks the products to compare', () => {
+    expect(interpretMessage('compare the first two', context)).toEqual({
+      type: 'compare',
+      products: [context.products[0], context.products[1]],
+    });
+    expect(interpretMessage('compare 1 and 3', context)).toEqual({
+      type: 'compare',
+      products: [context.products[0], context.products[2]],
+    });
+  });
+
+  it('adds continuations to the previous query and starts over otherwise', () => {
+    const continued = interpretMessage('with noise cancelling', context);
+    expect(continued.type === 'search' && continued.options.query).toBe('headphones with noise cancelling');
+
+    const fresh = interpretMessage('coffee maker', context);
+    expect(fresh).toEqual({
+      type: 'search',
+      options: { query: 'coffee maker', sortBy: 'relevance', page: 1 },
+      refinements: [],
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import type { Product } from '../components/ProductCard';
+import type { SearchFilters, SearchOptions } from '../services/api';
+import { SORT_LABELS } from './filters';
+import { extractPriceBounds } from './queryUnderstanding';
+
+// What a chat message asks for, given the turn it follows up on
+export type ConversationIntent =
+  | { type: 'search'; options: SearchOptions; refinements: string[] }
+  | { type: 'compare'; products: Product[] };
+
+// Context a follow-up message refines: the options and results of an earlier turn
+export interface ConversationContext {
+  options: SearchOptions;
+  products: Product[];
+}
+
+const ORDINALS: Record<string, number> = {
+  first: 0,
+  second: 1,
+  third: 2,
+  fourth: 3,
+  fifth: 4,
+};
+
+const COUNT_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+};
+
+// Phrases that change the sort order
+const SORT_PHRASES: { pattern: RegExp; sortBy: NonNullable<SearchOptions['sortBy']> }[] = [
+  { pattern: /\b(cheapest first|lowest price first|sort by price)\b/, sortBy: 'price_asc' },
+  { pattern: /\b(most expensive first|highest price first)\b/, sortBy: 'price_desc' },
+  { pattern: /\b(newest|latest)\b/, sortBy: 'newest' },
+  { pattern: /\b(alphabetical(ly)?|a to z)\b/, sortBy: 'name_asc' },
+  { pattern: /\b(best match(es)?|most relevant)\b/, sortBy: 'relevance' },
+];
+
+// Words after "only"/"just"/"by" that are not a brand or category
+const NOT_A_NAME = ['the', 'a', 'one', 'ones', 'price', 'cheaper', 'under', 'over', 'below', 'above', 'in', 'with'];
+
+// Follow-ups starting with these words add to the previous query
+const CONTINUATION_PATTERN = /^(and|with|in|for|that|but|without)\b/;
+
+const formatPrice = (price: number) => `$${price}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Match a word against values seen in the previous results, ignoring case
+const findKnownValue = (word: string, values: (string | undefined)[]): string | undefined => {
+  return values.find(value => value?.toLowerCase() === word.toLowerCase());
+};
+
+const getBrands = (products: Product[]) => products.map(product => {
+  const brand = product.attributes?.brand;
+  return typeof brand === 'string' ? brand : undefined;
+});
+
+// Indices of the products a comparison message refers to, e.g.
+// "compare the first two", "compare 1 and 3", "the second and fourth"
+const getComparedIndices = (message: string): number[] => {
+  const range = message.match(/\b(?:first|top)\s+(two|three|four|\d)\b/);
+  if (range) {
+    const count = COUNT_WORDS[range[1]] ?? Number(range[1]);
+    return Array.from({ length: count }, (_, index) => index);
+  }
+
+  const indices = [...message.matchAll(/\b(first|second|third|fourth|fifth)\b|#?(\d)\b/g)]
+    .map(match => (match[1] ? ORDINALS[match[1]] : Number(match[2]) - 1))
+    .filter(index => index >= 0);
+  return indices.length >= 2 ? [...new Set(indices)] : [0, 1];
+};
+
+// Work out how a chat message refines the previous turn. Without context,
+// or when nothing in the message is recognised as a refinement, it starts a new search.
+export const interpretMessage = (
+  message: string,
+  context: ConversationContext | null
+): ConversationIntent => {
+  const text = message.trim();
+  const lower = text.toLowerCase();
+
+  if (!context) {
+    return { type: 'search', options: { query: text, sortBy: 'relevance', page: 1 }, refinements: [] };
+  }
+
+  if (/\bcompare\b/.test(lower)) {
+    const products = getComparedIndices(lower)
+      .map(index => context.products[index])
+      .filter((product): product is Product => !!product);
+    return { type: 'compare', products };
+  }
+
+  const filters: SearchFilters = { ...context.options.filters };
+  let sortBy = context.options.sortBy;
+  const refinements: string[] = [];
+  const prices = context.products.map(product => product.price);
+
+  if (/\b(start over|reset|clear (all )?filters|remove (all )?filters)\b/.test(lower)) {
+    Object.keys(filters).forEach(key => delete filters[key as keyof SearchFilters]);
+    refinements.push('Filters cleared');
+  }
+
+  // Price bounds: explicit amounts first, then relative words
+  const bounds = extractPriceBounds(lower);
+
+  if (bounds.minPrice !== undefined && bounds.maxPrice !== undefined) {
+    filters.minPrice = bounds.minPrice;
+    filters.maxPrice = bounds.maxPrice;
+    refinements.push(`${formatPrice(filters.minPrice)} – ${formatPrice(filters.maxPrice)}`);
+  } else {
+    if (bounds.maxPrice !== undefined) {
+      filters.maxPrice = bounds.maxPrice;
+      refinements.push(`Under ${formatPrice(filters.maxPrice)}`);
+    } else if (/\b(cheaper|less expensive|more affordable|lower price)\b/.test(lower)) {
+      // Below the typical price of the previous results
+      const reference = median(prices);
+      if (reference !== undefined) {
+        filters.maxPrice = Math.floor(reference);
+      } else if (filters.maxPrice !== undefined) {
+        filters.maxPrice = Math.floor(filters.maxPrice * 0.8);
+      }
+      refinements.push(filters.maxPrice !== undefined ? `Under ${formatPrice(filters.maxPrice)}` : 'Cheaper');
+      sortBy = 'price_asc';
+    }
+
+    if (bounds.minPrice !== undefined) {
+      filters.minPrice = bounds.minPrice;
+      refinements.push(`Over ${formatPrice(filters.minPrice)}`);
+    } else if (/\b(more expensive|pricier|premium|higher end|high-end)\b/.test(lower)) {
+      const reference = median(prices);
+      if (reference !== undefined) {
+        filters.minPrice = Math.ceil(reference);
+      }
+      refinements.push(filters.minPrice !== undefined ? `Over ${formatPrice(filters.minPrice)}` : 'Pricier');
+      sortBy = 'price_desc';
+    }
+  }
+
+  if (/\bany price\b/.test(lower)) {
+    delete filters.minPrice;
+    delete filters.maxPrice;
+    refinements.push('Any price');
+  }
+
+  // "only Sony", "just shoes", "from Apple": a brand or category from the previous results
+  const only = lower.match(/(?<!sort )\b(?:only|just|from|by)\s+([a-z][a-z0-9&'-]*)/);
+  if (only && !NOT_A_NAME.includes(only[1])) {
+    const word = only[1];
+    const category = findKnownValue(word, context.products.map(product => product.category));
+    if (category) {
+      filters.category = category;
+      refinements.push(`Category: ${category}`);
+    } else {
+      filters.brand = findKnownValue(word, getBrands(context.products)) || capitalize(word);
+      refinements.push(`Brand: ${filters.brand}`);
+    }
+  }
+
+  if (/\bany brand\b/.test(lower)) {
+    delete filters.brand;
+    refinements.push('Any brand');
+  }
+
+  const sortPhrase = SORT_PHRASES.find(({ pattern }) => pattern.test(lower));
+  if (sortPhrase) {
+    sortBy = sortPhrase.sortBy;
+    refinements.push(`Sort: ${SORT_LABELS[sortPhrase.sortBy]}`);
+  }
+
+  if (refinements.length > 0) {
+    return {
+      type: 'search',
+      options: { ...context.options, filters, sortBy, page: 1 },
+      refinements,
+    };
+  }
+
+  // "with noise cancelling", "in black": narrow down the previous query
+  if (CONTINUATION_PATTERN.test(lower)) {
+    return {
+      type: 'search',
+      options: { ...context.options, query: `${context.options.query} ${text}`, page: 1 },
+      refinements: [`Added "${text}"`],
+    };
+  }
+
+  return { type: 'search', options: { query: text, sortBy: 'relevance', page: 1 }, refinements: [] };
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveAttributeFacets,
+  deriveCatalogFacets,
+  getSelectedAttributeValues,
+  setSelectedAttributeValues,
+  withoutFacetFilter
+} from './facets';
+import type { Product } from '../components/ProductCard';
+
+const product = (id: string, attributes: Record<string, unknown>): Product => ({
+  id,
+  name: `Product ${id}`,
+  price: 100,
+  description: '',
+  image: '',
+  attributes,
+});
+
+describe('facets', () => {
+  it('reads and writes multi-select attribute values', () => {
+    expect(getSelectedAttributeValues({ color: ['Black', 'Silver'] }, 'color')).toEqual(['Black', 'Silver']);
+    expect(getSelectedAttributeValues({ color: 'Black, Silver' }, 'color')).toEqual(['Black, Silver']);
+    expect(getSelectedAttributeValues(undefined, 'color')).toEqual([]);
+
+    expect(setSelectedAttributeValues({ size: 'M' }, 'color', ['Black', 'Silver']))
+      .toEqual({ size: 'M', color: ['Black', 'Silver'] });
+    expect(setSelectedAttributeValues({ size: 'M' }, 'color', ['Black']))
+      .toEqual({ size: 'M', color: 'Black' });
+    expect(setSelectedAttributeValues({ color: 'Black' }, 'color', [])).toBeUndefined();
+  });
+
+  it('derives facets with counts from the attributes of the result set', () => {
+    const facets = deriveAttributeFacets([
+      product('1', { brand: 'Sony', color: 'Black', storage_gb: 128, model: 'A1' }),
+      product('2', { brand: 'Apple', color: ['Black', 'Silver'], storage_gb: 256, model: 'A1' }),
+      product('3', { color: 'Silver', storage_gb: 256, dimensions: { width_cm: 7 } }),
+    ]);
+
+    expect(facets).toEqual([
+      {
+        key: 'color',
+        label: 'Color',
+        values: [
+          { value: 'Black', label: 'Black', count: 2 },
+          { value: 'Silver', label: 'Silver', count: 2 },
+        ],
+      },
+      {
+        key: 'storage_gb',
+        label: 'Storage',
+        values: [
+          { value: '256', label: '256 GB', count: 2 },
+          { value: '128', label: '128 GB', count: 1 },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps values that contain commas', () => {
+    const facets = deriveAttributeFacets([
+      product('1', { finish: 'Black, Silver' }),
+      product('2', { finish: 'White' }),
+    ]);
+
+    expect(facets[0].values.map(value => value.value)).toEqual(['Black, Silver', 'White']);
+  });
+
+  it('keeps selected values even when no product has them', () => {
+    const facets = deriveAttributeFacets(
+      [product('1', { wireless: true })],
+      { wireless: 'true', color: 'Red' }
+    );
+
+    expect(facets.map(facet => facet.key)).toEqual(['wireless', 'color']);
+    expect(facets[0].values).toEqual([{ value: 'true', label: 'Yes', count: 1 }]);
+    expect(facets[1].values).toEqual([{ value: 'Red', label: 'Red', count: 0 }]);
+  });
+
+  it('counts categories and brands of loaded products as a fallback', () => {
+    const products = [
+      { ...product('1', { brand: 'Sony' }), category: 'Electronics' },
+      { ...product('2', { brand: 'Sony' }), category: 'Electronics' },
+      { ...product('3', { brand: 'Nike' }), category: 'Footwear' },
+      product('4', {}),
+    ];
+
+    expect(deriveCatalogFacets({ categories: products, brands: products }, { brand: 'Apple' })).toEqual({
+      categories: [
+        { value: 'Electronics', count: 2 },
+        { value: 'Footwear', count: 1 },
+      ],
+      brands: [
+        { value: 'Sony', count: 2 },
+        { value: 'Nike', count: 1 },
+        { value: 'Apple', count: 0 },
+      ],
+    });
+  });
+
+  it('keeps other brands listed once a brand is selected', () => {
+    const unfiltered = [
+      { ...product('1', { brand: 'Sony' }), category: 'Electronics' },
+      { ...product('2', { brand: 'Bose' }), category: 'Electronics' },
+      { ...product('3', { brand: 'Sony' }), category: 'Audio' },
+    ];
+    const sonyOnly = unfiltered.filter(item => item.attributes?.brand === 'Sony');
+    const filters = { category: 'Electronics', brand: 'Sony' };
+
+    expect(withoutFacetFilter(filters, 'brand')).toEqual({ category: 'Electronics', brand: undefined });
+
+    const facets = deriveCatalogFacets({ categories: sonyOnly, brands: unfiltered }, filters);
+    expect(facets.brands).toEqual([
+      { value: 'Sony', count: 2 },
+      { value: 'Bose', count: 1 },
+    ]);
+    expect(facets.categories).toEqual([
+      { value: 'Audio', count: 1 },
+      { value: 'Electronics', count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import type { Product } from '../components/ProductCard';
+import type { AttributeFilterValue, CatalogFacets, FacetValue, SearchFilters } from '../services/api';
+import { formatAttributeKey, formatAttributeValue } from './attributes';
+
+// Attributes that already have a dedicated filter
+const EXCLUDED_KEYS = ['brand', 'category'];
+
+// Facets with more distinct values than this (model numbers, SKUs...) aren't useful
+const MAX_FACET_VALUES = 12;
+const MAX_FACETS = 6;
+
+export interface AttributeFacetValue {
+  value: string; // Raw value sent to the backend
+  label: string;
+  count: number; // Products in the result set with this value
+}
+
+export interface AttributeFacet {
+  key: string;
+  label: string;
+  values: AttributeFacetValue[];
+}
+
+// Values selected for one attribute
+export const getSelectedAttributeValues = (
+  attributes: Record<string, AttributeFilterValue> | undefined,
+  key: string
+): string[] => {
+  return [attributes?.[key] ?? []].flat().filter(Boolean);
+};
+
+// Return new attributes with the given values selected for one key, a single
+// value as a plain string; undefined when no attribute remains selected
+export const setSelectedAttributeValues = (
+  attributes: Record<string, AttributeFilterValue> | undefined,
+  key: string,
+  values: string[]
+): Record<string, AttributeFilterValue> | undefined => {
+  const next = { ...attributes };
+  if (values.length > 0) {
+    next[key] = values.length === 1 ? values[0] : values;
+  } else {
+    delete next[key];
+  }
+  return Object.keys(next).length > 0 ? next : undefined;
+};
+
+const toFacetValues = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(toFacetValues);
+  if (typeof value === 'number' || typeof value === 'boolean') return [String(value)];
+  if (typeof value === 'string' && value.trim()) return [value.trim()];
+  return [];
+};
+
+const parseFacetValue = (value: string): unknown => {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+};
+
+// Build attribute facets from the products of a result set. Selected values
+// are always kept so they can be deselected even if no product has them.
+export const deriveAttributeFacets = (
+  products: Product[],
+  selected: Record<string, AttributeFilterValue> = {}
+): AttributeFacet[] => {
+  const countsByKey = new Map<string, Map<string, number>>();
+  const coverageByKey = new Map<string, number>();
+
+  products.forEach(product => {
+    Object.entries(product.attributes || {}).forEach(([key, rawValue]) => {
+      if (EXCLUDED_KEYS.includes(key.toLowerCase())) return;
+
+      const values = new Set(toFacetValues(rawValue));
+      if (values.size === 0) return;
+
+      const counts = countsByKey.get(key) || new Map<string, number>();
+      values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+      countsByKey.set(key, counts);
+      coverageByKey.set(key, (coverageByKey.get(key) || 0) + 1);
+    });
+  });
+
+  Object.keys(selected).forEach(key => {
+    const counts = countsByKey.get(key) || new Map<string, number>();
+    getSelectedAttributeValues(selected, key).forEach(value => {
+      if (!counts.has(value)) counts.set(value, 0);
+    });
+    countsByKey.set(key, counts);
+  });
+
+  return [...countsByKey.entries()]
+    .filter(([key, counts]) => key in selected || (counts.size > 1 && counts.size <= MAX_FACET_VALUES))
+    .sort(([a], [b]) => {
+      const selectedOrder = Number(b in selected) - Number(a in selected);
+      return selectedOrder || (coverageByKey.get(b) || 0) - (coverageByKey.get(a) || 0);
+    })
+    .slice(0, Math.max(MAX_FACETS, Object.keys(selected).length))
+    .map(([key, counts]) => ({
+      key,
+      label: formatAttributeKey(key),
+      values: [...counts.entries()]
+        .map(([value, count]) => ({ value, label: formatAttributeValue(parseFacetValue(value), key), count }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    }));
+};
+
+const countValues = (values: (string | undefined)[], selected?: string): FacetValue[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  if (selected && !counts.has(selected)) counts.set(selected, 0);
+
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+const getBrand = (product: Product): string | undefined => {
+  const brand = product.attributes?.brand;
+  return typeof brand === 'string' && brand.trim() ? brand.trim() : undefined;
+};
+
+export type CatalogFacetDimension = 'category' | 'brand';
+
+// Filters a catalog facet is counted under: all but its own, so the other
+// values stay available once one is selected
+export const withoutFacetFilter = (filters: SearchFilters, dimension: CatalogFacetDimension): SearchFilters => ({
+  ...filters,
+  [dimension]: undefined,
+});
+
+// Category and brand facets computed from loaded products, used when the
+// facets endpoint is unavailable. Each dimension is counted in the products
+// loaded without its own filter, where available.
+export const deriveCatalogFacets = (
+  products: { categories: Product[]; brands: Product[] },
+  filters: SearchFilters = {}
+): CatalogFacets => ({
+  categories: countValues(products.categories.map(product => product.category), filters.category),
+  brands: countValues(products.brands.map(getBrand), filters.brand),
+});
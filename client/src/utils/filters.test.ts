@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { toSearchFilters, toSortOption, toSearchOptions, getFilterLabels } from './filters';
+
+describe('filters', () => {
+  describe('toSearchFilters', () => {
+    it('keeps known filters and converts numeric strings', () => {
+      expect(toSearchFilters({
+        category: 'Electronics',
+        brand: 'Sony',
+        minPrice: '50',
+        maxPrice: 200,
+        attributes: { color: 'Black', wireless: true, size: ['M', 'L'] },
+      })).toEqual({
+        category: 'Electronics',
+        brand: 'Sony',
+        minPrice: 50,
+        maxPrice: 200,
+        attributes: { color: 'Black', wireless: 'true', size: ['M', 'L'] },
+      });
+    });
+
+    it('drops empty, null and unknown values', () => {
+      expect(toSearchFilters({
+        category: '',
+        brand: null,
+        minPrice: 'cheap',
+        attributes: {},
+        unknown: 'value',
+      })).toEqual({});
+      expect(toSearchFilters(null)).toEqual({});
+    });
+  });
+
+  it('falls back to relevance for unknown sort values', () => {
+    expect(toSortOption('price_desc')).toBe('price_desc');
+    expect(toSortOption('popularity')).toBe('relevance');
+    expect(toSortOption(null)).toBe('relevance');
+  });
+
+  it('restores the search options of a history entry', () => {
+    expect(toSearchOptions({ query: 'shoes', filters: { brand: 'Nike', maxPrice: '80' }, sortBy: 'price_asc' })).toEqual({
+      query: 'shoes',
+      filters: { brand: 'Nike', maxPrice: 80 },
+      sortBy: 'price_asc',
+    });
+    expect(toSearchOptions({ query: 'shoes', filters: {}, sortBy: null })).toEqual({
+      query: 'shoes',
+      filters: {},
+      sortBy: 'relevance',
+    });
+  });
+
+  it('builds a label for each active filter', () => {
+    expect(getFilterLabels({
+      brand: 'Nike',
+      maxPrice: 80,
+      attributes: { size: '42', color: ['Black', 'White'] },
+    })).toEqual([
+      { key: 'brand', label: 'Brand: Nike' },
+      { key: 'maxPrice', label: 'Max: $80' },
+      { key: 'attributes.size', label: 'size: 42' },
+      { key: 'attributes.color', label: 'color: Black, White' },
+    ]);
+  });
+});
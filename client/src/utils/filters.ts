@@ -0,0 +1,84 @@
+import type { AttributeFilterValue, SearchFilters, SearchHistoryItem, SearchOptions } from '../services/api';
+import { isSortOption } from './searchParams';
+
+// Human-readable labels for the sort options
+export const SORT_LABELS: Record<NonNullable<SearchOptions['sortBy']>, string> = {
+  relevance: 'Best Match',
+  price_asc: 'Price: Low to High',
+  price_desc: 'Price: High to Low',
+  name_asc: 'Name: A to Z',
+  name_desc: 'Name: Z to A',
+  newest: 'Newest First',
+  oldest: 'Oldest First',
+};
+
+export interface FilterLabel {
+  key: string;
+  label: string;
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+};
+
+// Convert loosely typed filters (echoed by the backend or stored in history)
+// into SearchFilters, dropping empty and unknown values
+export const toSearchFilters = (raw: Record<string, unknown> | null | undefined): SearchFilters => {
+  const filters: SearchFilters = {};
+  if (!raw) return filters;
+
+  if (typeof raw.category === 'string' && raw.category) filters.category = raw.category;
+  if (typeof raw.brand === 'string' && raw.brand) filters.brand = raw.brand;
+
+  const minPrice = toNumber(raw.minPrice);
+  if (minPrice !== undefined) filters.minPrice = minPrice;
+
+  const maxPrice = toNumber(raw.maxPrice);
+  if (maxPrice !== undefined) filters.maxPrice = maxPrice;
+
+  if (raw.attributes && typeof raw.attributes === 'object' && !Array.isArray(raw.attributes)) {
+    const attributes: Record<string, AttributeFilterValue> = {};
+    Object.entries(raw.attributes as Record<string, unknown>).forEach(([key, value]) => {
+      const values = [value].flat()
+        .filter(item => (typeof item === 'string' && item) || typeof item === 'number' || typeof item === 'boolean')
+        .map(String);
+      if (values.length > 0) attributes[key] = values.length === 1 ? values[0] : values;
+    });
+    if (Object.keys(attributes).length > 0) filters.attributes = attributes;
+  }
+
+  return filters;
+};
+
+// Read a stored sort value, falling back to relevance
+export const toSortOption = (value: unknown): NonNullable<SearchOptions['sortBy']> => {
+  return isSortOption(value) ? value : 'relevance';
+};
+
+// The search a history entry ran, with the filters and sort order it used
+export const toSearchOptions = (item: Pick<SearchHistoryItem, 'query' | 'filters' | 'sortBy'>): SearchOptions => ({
+  query: item.query,
+  filters: toSearchFilters(item.filters),
+  sortBy: toSortOption(item.sortBy),
+});
+
+// Labels for each active filter, e.g. for chips
+export const getFilterLabels = (filters: SearchFilters): FilterLabel[] => {
+  const labels: FilterLabel[] = [];
+
+  if (filters.category) labels.push({ key: 'category', label: `Category: ${filters.category}` });
+  if (filters.brand) labels.push({ key: 'brand', label: `Brand: ${filters.brand}` });
+  if (filters.minPrice !== undefined) labels.push({ key: 'minPrice', label: `Min: $${filters.minPrice}` });
+  if (filters.maxPrice !== undefined) labels.push({ key: 'maxPrice', label: `Max: $${filters.maxPrice}` });
+
+  Object.entries(filters.attributes || {}).forEach(([key, value]) => {
+    const values = [value].flat().join(', ');
+    labels.push({ key: `attributes.${key}`, label: `${key}: ${values}` });
+  });
+
+  return labels;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchHistoryItem } from '../services/api';
+import {
+  getDailyStats,
+  getErrorBreakdown,
+  getLatencyPercentiles,
+  getTopZeroResultQueries,
+  summarizeHistory
+} from './historyAnalytics';
+
+let nextId = 1;
+const entry = (overrides: Partial<SearchHistoryItem>): SearchHistoryItem => ({
+  id: nextId++,
+  query: 'shoes',
+  resultsCount: 10,
+  executionTimeMs: 100,
+  success: true,
+  errorType: null,
+  filters: {},
+  sortBy: null,
+  createdAt: new Date(2026, 9, 10, 12).toISOString(),
+  updatedAt: new Date(2026, 9, 10, 12).toISOString(),
+  ...overrides,
+});
+
+describe('historyAnalytics', () => {
+  it('summarizes success, zero results and latency', () => {
+    expect(summarizeHistory([])).toEqual({ total: 0, successRate: null, zeroResultRate: null, averageLatencyMs: null });
+    expect(summarizeHistory([
+      entry({ executionTimeMs: 100 }),
+      entry({ resultsCount: 0, executionTimeMs: 200 }),
+      entry({ success: false, resultsCount: 0, errorType: 'TIMEOUT', executionTimeMs: 300 }),
+      entry({ executionTimeMs: 400 }),
+    ])).toEqual({ total: 4, successRate: 0.75, zeroResultRate: 1 / 3, averageLatencyMs: 250 });
+  });
+
+  it('counts searches per day and fills days without searches', () => {
+    const stats = getDailyStats([
+      entry({ createdAt: new Date(2026, 9, 8, 9).toISOString() }),
+      entry({ createdAt: new Date(2026, 9, 8, 18).toISOString(), success: false }),
+      entry({ createdAt: new Date(2026, 9, 10, 9).toISOString() }),
+    ]);
+
+    expect(stats).toEqual([
+      { date: '2026-10-08', searches: 2, successes: 1, successRate: 0.5 },
+      { date: '2026-10-09', searches: 0, successes: 0, successRate: null },
+      { date: '2026-10-10', searches: 1, successes: 1, successRate: 1 },
+    ]);
+  });
+
+  it('covers a fixed number of days up to today', () => {
+    const stats = getDailyStats([entry({})], { days: 3, now: new Date(2026, 9, 11, 8) });
+    expect(stats.map(day => day.date)).toEqual(['2026-10-09', '2026-10-10', '2026-10-11']);
+    expect(stats[1].searches).toBe(1);
+  });
+
+  it('uses nearest-rank latency percentiles', () => {
+    const items = Array.from({ length: 10 }, (_, index) => entry({ executionTimeMs: (index + 1) * 100 }));
+    expect(getLatencyPercentiles(items, [50, 90, 99])).toEqual([
+      { percentile: 50, ms: 500 },
+      { percentile: 90, ms: 900 },
+      { percentile: 99, ms: 1000 },
+    ]);
+    expect(getLatencyPercentiles([])).toEqual([]);
+  });
+
+  it('groups zero-result queries regardless of case and spacing', () => {
+    const top = getTopZeroResultQueries([
+      entry({ query: 'Purple  boots', resultsCount: 0, createdAt: new Date(2026, 9, 1).toISOString() }),
+      entry({ query: 'purple boots', resultsCount: 0, createdAt: new Date(2026, 9, 2).toISOString() }),
+      entry({ query: 'gold laptop', resultsCount: 0 }),
+      entry({ query: 'failed query', resultsCount: 0, success: false, errorType: 'TIMEOUT' }),
+      entry({ query: 'shoes', resultsCount: 3 }),
+    ]);
+
+    expect(top).toEqual([
+      { query: 'purple boots', count: 2, lastSearchedAt: new Date(2026, 9, 2).toISOString() },
+      { query: 'gold laptop', count: 1, lastSearchedAt: new Date(2026, 9, 10, 12).toISOString() },
+    ]);
+  });
+
+  it('breaks failed searches down by error type', () => {
+    expect(getErrorBreakdown([
+      entry({ success: false, errorType: 'TIMEOUT' }),
+      entry({ success: false, errorType: 'timeout_error' }),
+      entry({ success: false, errorType: null }),
+      entry({ success: false, errorType: 'AI_SERVICE_ERROR' }),
+      entry({}),
+    ])).toEqual([
+      { errorType: 'TIMEOUT', title: 'Timed out', count: 2, share: 0.5 },
+      { errorType: 'AI_SERVICE_ERROR', title: 'AI service error', count: 1, share: 0.25 },
+      { errorType: 'UNKNOWN', title: 'Unknown error', count: 1, share: 0.25 },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { SearchHistoryItem } from '../services/api';
+import { getSearchErrorReason } from './searchErrors';
+
+export interface DailySearchStats {
+  date: string; // Local day, YYYY-MM-DD
+  searches: number;
+  successes: number;
+  successRate: number | null; // Share of successful searches, null on days without searches
+}
+
+export interface LatencyPercentile {
+  percentile: number;
+  ms: number;
+}
+
+export interface ZeroResultQuery {
+  query: string;
+  count: number;
+  lastSearchedAt: string;
+}
+
+export interface ErrorTypeCount {
+  errorType: string; // Reason code, see getSearchErrorReason
+  title: string;
+  count: number;
+  share: number;
+}
+
+export interface HistorySummary {
+  total: number;
+  successRate: number | null;
+  zeroResultRate: number | null;
+  averageLatencyMs: number | null;
+}
+
+export const LATENCY_PERCENTILES = [50, 90, 95, 99];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDayKey = (date: Date) => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Failed searches also report 0 results, so only successful ones count as finding nothing
+const isZeroResult = (item: SearchHistoryItem) => item.success && item.resultsCount === 0;
+
+export const summarizeHistory = (items: SearchHistoryItem[]): HistorySummary => {
+  if (items.length === 0) {
+    return { total: 0, successRate: null, zeroResultRate: null, averageLatencyMs: null };
+  }
+
+  const successes = items.filter(item => item.success);
+  return {
+    total: items.length,
+    successRate: successes.length / items.length,
+    zeroResultRate: successes.length ? successes.filter(isZeroResult).length / successes.length : null,
+    averageLatencyMs: Math.round(items.reduce((sum, item) => sum + item.executionTimeMs, 0) / items.length),
+  };
+};
+
+// One entry per day from the first to the last search (or `days` days up to
+// `now`), including days without searches so charts keep a steady time axis
+export const getDailyStats = (
+  items: SearchHistoryItem[],
+  { days, now = new Date() }: { days?: number; now?: Date } = {}
+): DailySearchStats[] => {
+  const byDay = new Map<string, { searches: number; successes: number }>();
+  items.forEach(item => {
+    const key = toDayKey(new Date(item.createdAt));
+    const day = byDay.get(key) || { searches: 0, successes: 0 };
+    day.searches += 1;
+    if (item.success) day.successes += 1;
+    byDay.set(key, day);
+  });
+
+  let start: Date;
+  let end: Date;
+  if (days) {
+    end = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - (days - 1));
+  } else {
+    if (items.length === 0) return [];
+    const times = items.map(item => new Date(item.createdAt).getTime());
+    const first = new Date(Math.min(...times));
+    const last = new Date(Math.max(...times));
+    start = new Date(first.getFullYear(), first.getMonth(), first.getDate());
+    end = new Date(last.getFullYear(), last.getMonth(), last.getDate());
+  }
+
+  const stats: DailySearchStats[] = [];
+  for (let day = start; day <= end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    const key = toDayKey(day);
+    const { searches, successes } = byDay.get(key) || { searches: 0, successes: 0 };
+    stats.push({ date: key, searches, successes, successRate: searches ? successes / searches : null });
+  }
+  return stats;
+};
+
+// Nearest-rank percentiles of the execution time
+export const getLatencyPercentiles = (
+  items: SearchHistoryItem[],
+  percentiles: number[] = LATENCY_PERCENTILES
+): LatencyPercentile[] => {
+  if (items.length === 0) return [];
+  const sorted = items.map(item => item.executionTimeMs).sort((a, b) => a - b);
+  return percentiles.map(percentile => ({
+    percentile,
+    ms: sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)],
+  }));
+};
+
+// Queries that most often found nothing; spelling variants in case and
+// spacing are counted together under their latest form
+export const getTopZeroResultQueries = (items: SearchHistoryItem[], limit = 5): ZeroResultQuery[] => {
+  const byQuery = new Map<string, ZeroResultQuery>();
+  items.filter(isZeroResult).forEach(item => {
+    const key = item.query.trim().toLowerCase().replace(/\s+/g, ' ');
+    const existing = byQuery.get(key);
+    if (!existing) {
+      byQuery.set(key, { query: item.query.trim(), count: 1, lastSearchedAt: item.createdAt });
+      return;
+    }
+    existing.count += 1;
+    if (new Date(item.createdAt) > new Date(existing.lastSearchedAt)) {
+      existing.query = item.query.trim();
+      existing.lastSearchedAt = item.createdAt;
+    }
+  });
+
+  return [...byQuery.values()]
+    .sort((a, b) => b.count - a.count || new Date(b.lastSearchedAt).getTime() - new Date(a.lastSearchedAt).getTime())
+    .slice(0, limit);
+};
+
+// Failed searches per reason; different names for the same reason are counted together
+export const getErrorBreakdown = (items: SearchHistoryItem[]): ErrorTypeCount[] => {
+  const failed = items.filter(item => !item.success);
+  const counts = new Map<string, ErrorTypeCount>();
+  failed.forEach(item => {
+    const reason = getSearchErrorReason(item.errorType);
+    const entry = counts.get(reason.code) || { errorType: reason.code, title: reason.title, count: 0, share: 0 };
+    entry.count += 1;
+    counts.set(reason.code, entry);
+  });
+
+  return [...counts.values()]
+    .map(entry => ({ ...entry, share: entry.count / failed.length }))
+    .sort((a, b) => b.count - a.count || a.errorType.localeCompare(b.errorType));
+};
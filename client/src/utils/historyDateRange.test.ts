@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyHistoryDateRange,
+  getHistoryDateRangeLabel,
+  parseHistoryDateRange,
+  toHistoryDateOptions
+} from './historyDateRange';
+
+describe('historyDateRange', () => {
+  it('reads presets and custom dates from the URL', () => {
+    expect(parseHistoryDateRange(new URLSearchParams(''))).toEqual({ preset: 'all' });
+    expect(parseHistoryDateRange(new URLSearchParams('range=7d&from=2026-01-01'))).toEqual({ preset: '7d' });
+    expect(parseHistoryDateRange(new URLSearchParams('range=custom&from=2026-10-01&to=2026-10-07'))).toEqual({
+      preset: 'custom',
+      from: '2026-10-01',
+      to: '2026-10-07',
+    });
+  });
+
+  it('ignores unknown presets and invalid dates', () => {
+    expect(parseHistoryDateRange(new URLSearchParams('range=year'))).toEqual({ preset: 'all' });
+    expect(parseHistoryDateRange(new URLSearchParams('range=custom&from=2026-02-31&to=soon'))).toEqual({
+      preset: 'custom',
+      from: undefined,
+      to: undefined,
+    });
+  });
+
+  it('writes the range into the URL without touching other params', () => {
+    const params = new URLSearchParams('tab=history&range=30d');
+
+    expect(applyHistoryDateRange(params, { preset: 'today' }).toString()).toBe('tab=history&range=today');
+    expect(applyHistoryDateRange(params, { preset: 'all' }).toString()).toBe('tab=history');
+    expect(applyHistoryDateRange(params, { preset: 'custom', from: '2026-10-01' }).toString())
+      .toBe('tab=history&range=custom&from=2026-10-01');
+  });
+
+  it('turns presets into a start date at midnight', () => {
+    const now = new Date(2026, 9, 19, 15, 30);
+
+    expect(toHistoryDateOptions({ preset: 'all' }, now)).toEqual({});
+    expect(toHistoryDateOptions({ preset: 'today' }, now)).toEqual({ startDate: new Date(2026, 9, 19).toISOString() });
+    expect(toHistoryDateOptions({ preset: '7d' }, now)).toEqual({ startDate: new Date(2026, 9, 13).toISOString() });
+    expect(toHistoryDateOptions({ preset: '30d' }, now)).toEqual({ startDate: new Date(2026, 8, 20).toISOString() });
+  });
+
+  it('includes the whole last day of a custom range', () => {
+    expect(toHistoryDateOptions({ preset: 'custom', from: '2026-10-01', to: '2026-10-07' })).toEqual({
+      startDate: new Date(2026, 9, 1).toISOString(),
+      endDate: new Date(2026, 9, 7, 23, 59, 59, 999).toISOString(),
+    });
+  });
+
+  it('labels the range', () => {
+    expect(getHistoryDateRangeLabel({ preset: '7d' })).toBe('Last 7 days');
+    expect(getHistoryDateRangeLabel({ preset: 'custom', from: '2026-10-01', to: '2026-10-07' })).toBe('2026-10-01 – 2026-10-07');
+    expect(getHistoryDateRangeLabel({ preset: 'custom', to: '2026-10-07' })).toBe('Until 2026-10-07');
+  });
+});
@@ -0,0 +1,102 @@
+import type { SearchHistoryOptions } from '../services/api';
+
+export type HistoryDatePreset = 'all' | 'today' | '7d' | '30d' | 'custom';
+
+// Date range of the history list; custom dates are `YYYY-MM-DD` in local time
+export interface HistoryDateRange {
+  preset: HistoryDatePreset;
+  from?: string;
+  to?: string;
+}
+
+export const HISTORY_DATE_PRESET_LABELS: Record<HistoryDatePreset, string> = {
+  all: 'All time',
+  today: 'Today',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  custom: 'Custom range',
+};
+
+// Days covered by each rolling preset, including today
+const PRESET_DAYS: Partial<Record<HistoryDatePreset, number>> = {
+  today: 1,
+  '7d': 7,
+  '30d': 30,
+};
+
+// URL params: `range=7d`, or `range=custom&from=2026-10-01&to=2026-10-07`
+const RANGE_PARAM = 'range';
+const FROM_PARAM = 'from';
+const TO_PARAM = 'to';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isPreset = (value: string | null): value is HistoryDatePreset => {
+  return value !== null && Object.keys(HISTORY_DATE_PRESET_LABELS).includes(value);
+};
+
+const parseLocalDate = (value: string): Date | null => {
+  if (!DATE_PATTERN.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getDate() === day ? date : null;
+};
+
+export const parseHistoryDateRange = (params: URLSearchParams): HistoryDateRange => {
+  const preset = params.get(RANGE_PARAM);
+  if (!isPreset(preset) || preset === 'all') return { preset: 'all' };
+  if (preset !== 'custom') return { preset };
+
+  const from = params.get(FROM_PARAM) ?? '';
+  const to = params.get(TO_PARAM) ?? '';
+  return {
+    preset,
+    from: parseLocalDate(from) ? from : undefined,
+    to: parseLocalDate(to) ? to : undefined,
+  };
+};
+
+// Write the range into existing URL params, keeping everything else
+export const applyHistoryDateRange = (params: URLSearchParams, range: HistoryDateRange): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  [RANGE_PARAM, FROM_PARAM, TO_PARAM].forEach(key => next.delete(key));
+
+  if (range.preset === 'all') return next;
+  next.set(RANGE_PARAM, range.preset);
+  if (range.preset === 'custom') {
+    if (range.from) next.set(FROM_PARAM, range.from);
+    if (range.to) next.set(TO_PARAM, range.to);
+  }
+  return next;
+};
+
+// `startDate`/`endDate` for the history API; presets end now and start at
+// midnight of the first day they cover
+export const toHistoryDateOptions = (
+  range: HistoryDateRange,
+  now: Date = new Date()
+): Pick<SearchHistoryOptions, 'startDate' | 'endDate'> => {
+  const days = PRESET_DAYS[range.preset];
+  if (days) {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+    return { startDate: start.toISOString() };
+  }
+
+  if (range.preset !== 'custom') return {};
+
+  const from = range.from ? parseLocalDate(range.from) : null;
+  const to = range.to ? parseLocalDate(range.to) : null;
+  return {
+    ...(from && { startDate: from.toISOString() }),
+    // Include the whole last day
+    ...(to && { endDate: new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1, 0, 0, 0, -1).toISOString() }),
+  };
+};
+
+export const getHistoryDateRangeLabel = (range: HistoryDateRange): string => {
+  if (range.preset !== 'custom') return HISTORY_DATE_PRESET_LABELS[range.preset];
+  if (range.from && range.to) return `${range.from} – ${range.to}`;
+  if (range.from) return `Since ${range.from}`;
+  if (range.to) return `Until ${range.to}`;
+  return HISTORY_DATE_PRESET_LABELS.custom;
+};
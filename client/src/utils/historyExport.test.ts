@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchHistoryItem } from '../services/api';
+import { getHistoryExportFilename, toHistoryCsv, toHistoryJson } from './historyExport';
+
+const item: SearchHistoryItem = {
+  id: 7,
+  query: 'shoes, "waterproof"',
+  resultsCount: 0,
+  executionTimeMs: 1200,
+  success: false,
+  errorType: 'TIMEOUT',
+  filters: { brand: 'Nike', maxPrice: 120 },
+  sortBy: 'price_asc',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:05:00.000Z',
+};
+
+describe('historyExport', () => {
+  it('writes a header and escapes cells that need quoting', () => {
+    const lines = toHistoryCsv([item, { ...item, query: 'laptop', errorType: null, filters: {}, sortBy: null }]).split('\r\n');
+
+    expect(lines[0]).toBe('query,resultsCount,executionTimeMs,success,errorType,filters,sortBy,createdAt');
+    expect(lines[1]).toBe(
+      '"shoes, ""waterproof""",0,1200,false,TIMEOUT,"{""brand"":""Nike"",""maxPrice"":120}",price_asc,2026-10-01T10:00:00.000Z'
+    );
+    expect(lines[2]).toBe('laptop,0,1200,false,,{},,2026-10-01T10:00:00.000Z');
+  });
+
+  it('keeps queries that look like formulas from running in a spreadsheet', () => {
+    const queries = ['=HYPERLINK("http://example.com")', '+1 case', '-5 off', '@SUM(A1)', 'usb-c cable'];
+    const lines = toHistoryCsv(queries.map(query => ({ ...item, query }))).split('\r\n');
+
+    expect(lines.slice(1).map(line => line.slice(0, line.indexOf(',0,1200')))).toEqual([
+      '"\'=HYPERLINK(""http://example.com"")"',
+      "'+1 case",
+      "'-5 off",
+      "'@SUM(A1)",
+      'usb-c cable',
+    ]);
+  });
+
+  it('exports only the documented fields as JSON', () => {
+    expect(JSON.parse(toHistoryJson([item]))).toEqual([{
+      query: 'shoes, "waterproof"',
+      resultsCount: 0,
+      executionTimeMs: 1200,
+      success: false,
+      errorType: 'TIMEOUT',
+      filters: { brand: 'Nike', maxPrice: 120 },
+      sortBy: 'price_asc',
+      createdAt: '2026-10-01T10:00:00.000Z',
+    }]);
+  });
+
+  it('names the file after the day of the export', () => {
+    expect(getHistoryExportFilename('csv', new Date(2026, 0, 5))).toBe('search-history-2026-01-05.csv');
+  });
+});
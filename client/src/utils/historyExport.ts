@@ -0,0 +1,80 @@
+import type { SearchHistoryItem } from '../services/api';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+// Fields of a history entry that end up in an export, in column order
+export const HISTORY_EXPORT_FIELDS = [
+  'query',
+  'resultsCount',
+  'executionTimeMs',
+  'success',
+  'errorType',
+  'filters',
+  'sortBy',
+  'createdAt',
+] as const;
+
+export type HistoryExportRecord = Pick<SearchHistoryItem, typeof HISTORY_EXPORT_FIELDS[number]>;
+
+const MIME_TYPES: Record<HistoryExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+export const toHistoryExportRecord = (item: SearchHistoryItem): HistoryExportRecord => ({
+  query: item.query,
+  resultsCount: item.resultsCount,
+  executionTimeMs: item.executionTimeMs,
+  success: item.success,
+  errorType: item.errorType,
+  filters: item.filters || {},
+  sortBy: item.sortBy,
+  createdAt: item.createdAt,
+});
+
+// Typed text starting with one of these would run as a formula in a spreadsheet
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote a CSV cell when it contains a separator, quote or line break. Text that
+// looks like a formula is prefixed with ' so spreadsheets show it as typed.
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Filters are written as a JSON object so they can be read back unambiguously
+export const toHistoryCsv = (items: SearchHistoryItem[]): string => {
+  const rows = items.map(item => {
+    const record = toHistoryExportRecord(item);
+    return HISTORY_EXPORT_FIELDS.map(field => toCsvCell(record[field])).join(',');
+  });
+  return [HISTORY_EXPORT_FIELDS.join(','), ...rows].join('\r\n');
+};
+
+export const toHistoryJson = (items: SearchHistoryItem[]): string => {
+  return JSON.stringify(items.map(toHistoryExportRecord), null, 2);
+};
+
+// e.g. "search-history-2026-10-19.csv"
+export const getHistoryExportFilename = (format: HistoryExportFormat, now = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  return `search-history-${date}.${format}`;
+};
+
+// Save the entries as a file through a temporary link
+export const downloadHistoryExport = (items: SearchHistoryItem[], format: HistoryExportFormat) => {
+  const content = format === 'csv' ? toHistoryCsv(items) : toHistoryJson(items);
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getHistoryExportFilename(format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
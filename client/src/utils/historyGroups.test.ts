@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchHistoryItem } from '../services/api';
+import {
+  collapseHistoryRuns,
+  formatResultRange,
+  getHistoryDayLabel,
+  groupHistoryByDay
+} from './historyGroups';
+
+// Thursday
+const now = new Date(2026, 9, 15, 18);
+
+let nextId = 1;
+const entry = (overrides: Partial<SearchHistoryItem>): SearchHistoryItem => ({
+  id: nextId++,
+  query: 'running shoes',
+  resultsCount: 10,
+  executionTimeMs: 100,
+  success: true,
+  errorType: null,
+  filters: {},
+  sortBy: null,
+  createdAt: new Date(2026, 9, 15, 12).toISOString(),
+  updatedAt: new Date(2026, 9, 15, 12).toISOString(),
+  ...overrides,
+});
+
+describe('historyGroups', () => {
+  it('labels recent days relative to today', () => {
+    expect(getHistoryDayLabel(new Date(2026, 9, 15, 0, 5).toISOString(), now)).toBe('Today');
+    expect(getHistoryDayLabel(new Date(2026, 9, 14, 23).toISOString(), now)).toBe('Yesterday');
+    expect(getHistoryDayLabel(new Date(2026, 9, 12, 9).toISOString(), now)).toBe('Earlier this week');
+    expect(getHistoryDayLabel(new Date(2026, 9, 11, 9).toISOString(), now)).not.toMatch(/week|Yesterday/);
+    expect(getHistoryDayLabel(new Date(2025, 9, 11, 9).toISOString(), now)).toMatch(/2025/);
+  });
+
+  it('collapses consecutive identical searches', () => {
+    const runs = collapseHistoryRuns([
+      entry({ query: 'Running shoes', resultsCount: 12 }),
+      entry({ query: 'running  shoes ', resultsCount: 3 }),
+      entry({ query: 'running shoes', resultsCount: 8 }),
+      entry({ query: 'running shoes', filters: { brand: 'Nike' } }),
+      entry({ query: 'desk lamp' }),
+      entry({ query: 'running shoes' }),
+    ]);
+
+    expect(runs.map(run => [run.latest.query, run.items.length])).toEqual([
+      ['Running shoes', 3],
+      ['running shoes', 1],
+      ['desk lamp', 1],
+      ['running shoes', 1],
+    ]);
+    expect(runs[0]).toMatchObject({ minResults: 3, maxResults: 12 });
+  });
+
+  it('groups by day without merging repeats across days', () => {
+    const groups = groupHistoryByDay([
+      entry({}),
+      entry({}),
+      entry({ createdAt: new Date(2026, 9, 14, 20).toISOString() }),
+      entry({ createdAt: new Date(2026, 9, 13, 20).toISOString(), query: 'desk lamp' }),
+    ], now);
+
+    expect(groups.map(group => [group.label, group.runs.map(run => run.items.length)])).toEqual([
+      ['Today', [2]],
+      ['Yesterday', [1]],
+      ['Earlier this week', [1]],
+    ]);
+  });
+
+  it('formats the range of result counts', () => {
+    expect(formatResultRange({ minResults: 1, maxResults: 1 })).toBe('1 result');
+    expect(formatResultRange({ minResults: 3, maxResults: 12 })).toBe('3–12 results');
+  });
+});
@@ -0,0 +1,102 @@
+import type { SearchHistoryItem } from '../services/api';
+import { toSearchFilters, toSortOption } from './filters';
+import { getSavedSearchKey } from './savedSearches';
+
+// Consecutive runs of the same search, shown as one row
+export interface HistoryRun {
+  key: string;
+  latest: SearchHistoryItem;
+  items: SearchHistoryItem[]; // Newest first
+  minResults: number;
+  maxResults: number;
+}
+
+export interface HistoryDayGroup {
+  label: string; // "Today", "Yesterday", "Earlier this week" or a date
+  runs: HistoryRun[];
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole calendar days between two dates, ignoring daylight saving shifts
+const daysBetween = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => {
+  const day = startOfDay(date);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+};
+
+export const getHistoryDayLabel = (createdAt: string, now: Date = new Date()): string => {
+  const date = new Date(createdAt);
+  const days = daysBetween(date, now);
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  if (date >= startOfWeek(now)) return 'Earlier this week';
+
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+};
+
+// Searches count as identical when query (ignoring case and spacing), filters and sort order match
+export const getHistoryRunKey = (item: SearchHistoryItem): string => {
+  return getSavedSearchKey({
+    query: item.query.trim().toLowerCase().replace(/\s+/g, ' '),
+    filters: toSearchFilters(item.filters),
+    sortBy: toSortOption(item.sortBy),
+  });
+};
+
+// A single search as a run of its own, e.g. for the ungrouped list
+export const toHistoryRun = (item: SearchHistoryItem): HistoryRun => ({
+  key: getHistoryRunKey(item),
+  latest: item,
+  items: [item],
+  minResults: item.resultsCount,
+  maxResults: item.resultsCount,
+});
+
+// Collapse consecutive identical searches; items are expected newest first
+export const collapseHistoryRuns = (items: SearchHistoryItem[]): HistoryRun[] => {
+  const runs: HistoryRun[] = [];
+  items.forEach(item => {
+    const run = toHistoryRun(item);
+    const last = runs[runs.length - 1];
+    if (last && last.key === run.key) {
+      last.items.push(item);
+      last.minResults = Math.min(last.minResults, item.resultsCount);
+      last.maxResults = Math.max(last.maxResults, item.resultsCount);
+      return;
+    }
+    runs.push(run);
+  });
+  return runs;
+};
+
+// Day sections in the order of the items, each with its collapsed runs
+export const groupHistoryByDay = (items: SearchHistoryItem[], now: Date = new Date()): HistoryDayGroup[] => {
+  const groups: { label: string; items: SearchHistoryItem[] }[] = [];
+  items.forEach(item => {
+    const label = getHistoryDayLabel(item.createdAt, now);
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) {
+      last.items.push(item);
+    } else {
+      groups.push({ label, items: [item] });
+    }
+  });
+  return groups.map(group => ({ label: group.label, runs: collapseHistoryRuns(group.items) }));
+};
+
+// "12 results", or "3–12 results" when repeats found different numbers
+export const formatResultRange = ({ minResults, maxResults }: Pick<HistoryRun, 'minResults' | 'maxResults'>) => {
+  return minResults === maxResults
+    ? `${maxResults} result${maxResults !== 1 ? 's' : ''}`
+    : `${minResults}–${maxResults} results`;
+};
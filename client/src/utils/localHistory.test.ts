@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  localHistoryApi,
+  readLocalHistory,
+  recordLocalSearch,
+  toHistoryImportItems
+} from './localHistory';
+
+const search = (query: string, success = true) => ({
+  query,
+  resultsCount: success ? 5 : 0,
+  executionTimeMs: 200,
+  success,
+  errorType: success ? null : 'TIMEOUT',
+  filters: {},
+  sortBy: 'relevance',
+});
+
+const day = (date: number) => new Date(2026, 9, date, 12);
+
+describe('localHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps the newest searches up to the limit', () => {
+    recordLocalSearch(search('desk lamp'), day(1), 2);
+    recordLocalSearch(search('office chair'), day(2), 2);
+    recordLocalSearch(search('monitor arm'), day(3), 2);
+
+    const items = readLocalHistory();
+    expect(items.map(item => item.query)).toEqual(['monitor arm', 'office chair']);
+    expect(new Set(items.map(item => item.id)).size).toBe(2);
+    expect(items[0].createdAt).toBe(day(3).toISOString());
+  });
+
+  it('filters and pages like the account history', async () => {
+    recordLocalSearch(search('Desk lamp'), day(1));
+    recordLocalSearch(search('desk chair', false), day(5));
+    recordLocalSearch(search('lamp shade'), day(10));
+
+    const byQuery = await localHistoryApi.getHistory({ query: 'desk' });
+    expect(byQuery.data.map(item => item.query)).toEqual(['desk chair', 'Desk lamp']);
+
+    const successful = await localHistoryApi.getHistory({ query: 'desk', successOnly: true });
+    expect(successful.data.map(item => item.query)).toEqual(['Desk lamp']);
+
+    const inRange = await localHistoryApi.getAllHistory({ startDate: day(2).toISOString(), endDate: day(10).toISOString() });
+    expect(inRange.map(item => item.query)).toEqual(['lamp shade', 'desk chair']);
+
+    const secondPage = await localHistoryApi.getHistory({ page: 2, limit: 2 });
+    expect(secondPage.data.map(item => item.query)).toEqual(['Desk lamp']);
+    expect(secondPage.pagination).toMatchObject({ total: 3, totalPages: 2, hasNextPage: false, hasPrevPage: true });
+  });
+
+  it('deletes entries and clears the history', async () => {
+    const first = recordLocalSearch(search('desk lamp'), day(1));
+    const second = recordLocalSearch(search('office chair'), day(2));
+    recordLocalSearch(search('monitor arm'), day(3));
+
+    expect(await localHistoryApi.deleteHistoryItems([first.id, second.id])).toEqual({ success: true, deletedCount: 2 });
+    expect(readLocalHistory().map(item => item.query)).toEqual(['monitor arm']);
+
+    expect(await localHistoryApi.clearHistory()).toEqual({ success: true, deletedCount: 1 });
+    expect(readLocalHistory()).toEqual([]);
+  });
+
+  it('prepares the entries for upload, oldest first', () => {
+    recordLocalSearch(search('desk lamp'), day(1));
+    recordLocalSearch(search('office chair', false), day(2));
+
+    expect(toHistoryImportItems(readLocalHistory())).toEqual([
+      { ...search('desk lamp'), createdAt: day(1).toISOString() },
+      { ...search('office chair', false), createdAt: day(2).toISOString() },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type {
+  searchHistoryApi,
+  AllHistoryOptions,
+  SearchHistoryImportItem,
+  SearchHistoryItem,
+  SearchHistoryOptions
+} from '../services/api';
+import { readJson, writeJson, removeItem } from './storage';
+
+// Searches run while signed out; offered for upload into the account on login
+const LOCAL_HISTORY_KEY = 'smart-product-assistant:search-history:guest';
+
+// Same as the searchHistoryLimit preference of a new account
+export const DEFAULT_SEARCH_HISTORY_LIMIT = 50;
+
+// What the history list needs from where the searches are kept
+export type HistorySource = Pick<
+  typeof searchHistoryApi,
+  'getHistory' | 'getAllHistory' | 'deleteHistoryItem' | 'deleteHistoryItems' | 'clearHistory'
+>;
+
+// Newest first
+export const readLocalHistory = (): SearchHistoryItem[] => {
+  const stored = readJson<unknown>(LOCAL_HISTORY_KEY, []);
+  return Array.isArray(stored) ? stored as SearchHistoryItem[] : [];
+};
+
+const writeLocalHistory = (items: SearchHistoryItem[]) => {
+  if (items.length === 0) {
+    removeItem(LOCAL_HISTORY_KEY);
+  } else {
+    writeJson(LOCAL_HISTORY_KEY, items);
+  }
+};
+
+export const clearLocalHistory = () => removeItem(LOCAL_HISTORY_KEY);
+
+// Keep a search on this device, dropping the oldest beyond the limit
+export const recordLocalSearch = (
+  search: Omit<SearchHistoryImportItem, 'createdAt'>,
+  now: Date = new Date(),
+  limit: number = DEFAULT_SEARCH_HISTORY_LIMIT
+): SearchHistoryItem => {
+  const items = readLocalHistory();
+  const createdAt = now.toISOString();
+  const item: SearchHistoryItem = {
+    ...search,
+    id: Math.max(0, ...items.map(existing => existing.id)) + 1,
+    createdAt,
+    updatedAt: createdAt,
+  };
+  writeLocalHistory([item, ...items].slice(0, limit));
+  return item;
+};
+
+// The entries as the account history expects them on upload, oldest first
+export const toHistoryImportItems = (items: SearchHistoryItem[]): SearchHistoryImportItem[] => {
+  return [...items].reverse().map(({ query, resultsCount, executionTimeMs, success, errorType, filters, sortBy, createdAt }) => ({
+    query,
+    resultsCount,
+    executionTimeMs,
+    success,
+    errorType,
+    filters,
+    sortBy,
+    createdAt,
+  }));
+};
+
+// The query matches anywhere, ignoring case; both dates are inclusive
+const matchesOptions = (item: SearchHistoryItem, options: SearchHistoryOptions) => {
+  const createdAt = new Date(item.createdAt).getTime();
+  if (options.successOnly && !item.success) return false;
+  if (options.query && !item.query.toLowerCase().includes(options.query.toLowerCase())) return false;
+  if (options.startDate && createdAt < new Date(options.startDate).getTime()) return false;
+  if (options.endDate && createdAt > new Date(options.endDate).getTime()) return false;
+  return true;
+};
+
+const deleteLocalItems = (ids: number[]) => {
+  const items = readLocalHistory();
+  const remaining = items.filter(item => !ids.includes(item.id));
+  writeLocalHistory(remaining);
+  return { success: true, deletedCount: items.length - remaining.length };
+};
+
+// The local history behind the same interface as the account history
+export const localHistoryApi: HistorySource = {
+  getHistory: async (options: SearchHistoryOptions = {}) => {
+    const matching = readLocalHistory().filter(item => matchesOptions(item, options));
+    const page = options.page || 1;
+    const limit = options.limit || 10;
+    const totalPages = Math.max(1, Math.ceil(matching.length / limit));
+
+    return {
+      success: true,
+      data: matching.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total: matching.length,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1,
+      },
+    };
+  },
+
+  getAllHistory: async (options: Omit<SearchHistoryOptions, 'page' | 'limit'> = {}, { onProgress }: AllHistoryOptions = {}) => {
+    const items = readLocalHistory().filter(item => matchesOptions(item, options));
+    onProgress?.(items.length, items.length);
+    return items;
+  },
+
+  deleteHistoryItem: async (id: number) => deleteLocalItems([id]),
+
+  deleteHistoryItems: async (ids: number[]) => deleteLocalItems(ids),
+
+  clearHistory: async () => {
+    const deletedCount = readLocalHistory().length;
+    clearLocalHistory();
+    return { success: true, deletedCount };
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractPriceBounds,
+  inferFilters,
+  applyInferredFilters,
+  isInferredFilterApplied
+} from './queryUnderstanding';
+
+const known = {
+  brands: ['Nike', 'Sony', 'HP'],
+  categories: ['Footwear', 'Electronics'],
+};
+
+describe('queryUnderstanding', () => {
+  it('extracts price bounds in common phrasings', () => {
+    expect(extractPriceBounds('shoes under $80')).toEqual({ maxPrice: 80, maxSource: 'under $80' });
+    expect(extractPriceBounds('tv over 1,200')).toEqual({ minPrice: 1200, minSource: 'over 1,200' });
+    expect(extractPriceBounds('laptop between 500 and 1.5k')).toMatchObject({ minPrice: 500, maxPrice: 1500 });
+    expect(extractPriceBounds('headphones $50-$100')).toMatchObject({ minPrice: 50, maxPrice: 100 });
+    expect(extractPriceBounds('red shoes')).toEqual({});
+  });
+
+  it('only reads numbers after "up to", "max" or "at least" as prices when marked as such', () => {
+    expect(extractPriceBounds('headphones with up to 30 hours battery')).toEqual({});
+    expect(extractPriceBounds('iphone 15 pro max 256gb')).toEqual({});
+    expect(extractPriceBounds('iphone 15 pro max 256')).toEqual({});
+    expect(extractPriceBounds('tents for at least 4 people')).toEqual({});
+    expect(extractPriceBounds('earbuds up to $30')).toEqual({ maxPrice: 30, maxSource: 'up to $30' });
+    expect(extractPriceBounds('earbuds up to 30 dollars')).toEqual({ maxPrice: 30, maxSource: 'up to 30 dollars' });
+    expect(extractPriceBounds('laptop max price 900')).toEqual({ maxPrice: 900, maxSource: 'max price 900' });
+    expect(extractPriceBounds('budget up to 500 for a monitor')).toMatchObject({ maxPrice: 500 });
+  });
+
+  it('skips numbers followed by a unit', () => {
+    expect(extractPriceBounds('power bank over 10000 mah')).toEqual({});
+    expect(extractPriceBounds('tv over 55" under 800')).toEqual({ maxPrice: 800, maxSource: 'under 800' });
+    expect(extractPriceBounds('speaker under 500w')).toEqual({});
+    expect(extractPriceBounds('phones under 1,200 with 256gb')).toEqual({ maxPrice: 1200, maxSource: 'under 1,200' });
+  });
+
+  it('infers price, brand and category from a query', () => {
+    expect(inferFilters('running shoes under $80 from Nike', known)).toEqual([
+      { key: 'maxPrice', value: 80, label: 'Max: $80', source: 'under $80' },
+      { key: 'brand', value: 'Nike', label: 'Brand: Nike', source: 'Nike' },
+      { key: 'category', value: 'Footwear', label: 'Category: Footwear', source: 'shoes' },
+    ]);
+  });
+
+  it('only matches known brands as whole words', () => {
+    expect(inferFilters('hpx chargers', known)).toEqual([]);
+    expect(inferFilters('shoes', { brands: known.brands })).toEqual([]);
+  });
+
+  it('applies accepted filters on top of the current ones', () => {
+    const [maxPrice, brand] = inferFilters('sony under 300', known);
+    const filters = applyInferredFilters({ category: 'Electronics' }, [maxPrice, brand]);
+
+    expect(filters).toEqual({ category: 'Electronics', maxPrice: 300, brand: 'Sony' });
+    expect(isInferredFilterApplied(filters, brand)).toBe(true);
+    expect(isInferredFilterApplied({}, brand)).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import type { SearchFilters } from '../services/api';
+
+// A filter read from the free text of a query, e.g. "under $80" -> maxPrice 80
+export interface InferredFilter {
+  key: 'category' | 'brand' | 'minPrice' | 'maxPrice';
+  value: string | number;
+  label: string;
+  source: string; // Part of the query it was read from
+}
+
+export interface PriceBounds {
+  minPrice?: number;
+  maxPrice?: number;
+  minSource?: string;
+  maxSource?: string;
+}
+
+// Everyday words for catalog categories; only used when the category exists
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'Footwear': ['shoes', 'shoe', 'sneakers', 'boots', 'sandals'],
+  'Electronics': ['headphones', 'earbuds', 'laptop', 'phone', 'smartphone', 'tablet', 'camera', 'speaker', 'tv'],
+  'Clothing': ['shirt', 'shirts', 'jacket', 'jeans', 'dress', 'hoodie'],
+  'Books': ['book', 'books', 'novel'],
+  'Home & Kitchen': ['coffee maker', 'blender', 'kettle', 'cookware'],
+};
+
+// Units that make a number something other than a price, e.g. "30 hours" or "256gb"
+const UNIT = String.raw`(?:(?:gb|tb|mb|mah|wh|w|watts?|hours?|hrs?|mins?|minutes|mp|hz|khz|inch(?:es)?|mm|cm|kg|lbs?|oz|pack|pcs|pieces|stars?)\b|")`;
+
+// An amount like "$80", "1,200", "1.5k" or "80 dollars"; captures the "$",
+// the number, the "k" and the currency word
+const AMOUNT = String.raw`(\$\s*)?(\d[\d,]*(?:\.\d+)?)(?!,?\d|\.\d)\s*(k\b)?(?!\s*${UNIT})(?:\s*(usd|dollars?|bucks)\b)?`;
+
+// Words for an upper or lower bound. A bare number after the ambiguous ones
+// ("up to 30", "pro max 256") is only a price with a currency or price word.
+const MAX_WORDS = ['under', 'below', 'less than', 'cheaper than', 'up to', 'no more than', 'max', 'maximum'];
+const MIN_WORDS = ['over', 'above', 'more than', 'at least', 'min', 'minimum'];
+const AMBIGUOUS_WORDS = ['up to', 'no more than', 'max', 'maximum', 'at least', 'min', 'minimum'];
+const PRICE_WORDS = /\b(?:price[ds]?|budget|costs?)\b/;
+
+const toAmount = (value: string, thousands?: string) => {
+  const amount = Number(value.replace(/,/g, ''));
+  return thousands ? amount * 1000 : amount;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsWord = (text: string, word: string) => {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(word.toLowerCase())}([^a-z0-9]|$)`).test(text);
+};
+
+// The first amount after one of the words that reads as a price
+const findBound = (lower: string, words: string[]) => {
+  const pattern = new RegExp(String.raw`\b(${words.join('|')})\s*(?:(?:price|budget)\s+(?:of\s+)?)?${AMOUNT}`, 'g');
+  const isPriceContext = PRICE_WORDS.test(lower);
+  const match = [...lower.matchAll(pattern)].find(([, word, dollar, , , currency]) => (
+    !AMBIGUOUS_WORDS.includes(word) || !!dollar || !!currency || isPriceContext
+  ));
+  return match && { amount: toAmount(match[3], match[4]), source: match[0].trim() };
+};
+
+// Price bounds like "under $80", "over 50", "between $50 and $100" or "$50-$100"
+export const extractPriceBounds = (text: string): PriceBounds => {
+  const lower = text.toLowerCase();
+
+  const range = lower.match(new RegExp(String.raw`\bbetween\s*${AMOUNT}\s*(?:and|to|-)\s*${AMOUNT}`))
+    || lower.match(new RegExp(String.raw`\$\s*${AMOUNT}\s*(?:-|to)\s*${AMOUNT}`));
+  if (range) {
+    return {
+      minPrice: toAmount(range[2], range[3]),
+      maxPrice: toAmount(range[6], range[7]),
+      minSource: range[0].trim(),
+      maxSource: range[0].trim(),
+    };
+  }
+
+  const bounds: PriceBounds = {};
+  const max = findBound(lower, MAX_WORDS);
+  if (max) {
+    bounds.maxPrice = max.amount;
+    bounds.maxSource = max.source;
+  }
+
+  const min = findBound(lower, MIN_WORDS);
+  if (min) {
+    bounds.minPrice = min.amount;
+    bounds.minSource = min.source;
+  }
+
+  return bounds;
+};
+
+// Pull price bounds, brands and categories out of a search query. Brands and
+// categories are only recognised when they are known, e.g. from the facets.
+export const inferFilters = (
+  query: string,
+  known: { brands?: string[]; categories?: string[] } = {}
+): InferredFilter[] => {
+  const lower = query.toLowerCase();
+  const inferred: InferredFilter[] = [];
+
+  const { minPrice, maxPrice, minSource, maxSource } = extractPriceBounds(query);
+  if (minPrice !== undefined && minSource) {
+    inferred.push({ key: 'minPrice', value: minPrice, label: `Min: $${minPrice}`, source: minSource });
+  }
+  if (maxPrice !== undefined && maxSource) {
+    inferred.push({ key: 'maxPrice', value: maxPrice, label: `Max: $${maxPrice}`, source: maxSource });
+  }
+
+  const brand = (known.brands || []).find(name => containsWord(lower, name));
+  if (brand) {
+    inferred.push({ key: 'brand', value: brand, label: `Brand: ${brand}`, source: brand });
+  }
+
+  const categories = known.categories || [];
+  const category = categories.find(name => containsWord(lower, name))
+    || categories.find(name => (CATEGORY_KEYWORDS[name] || []).some(keyword => containsWord(lower, keyword)));
+  if (category) {
+    const keyword = containsWord(lower, category)
+      ? category
+      : (CATEGORY_KEYWORDS[category] || []).find(word => containsWord(lower, word)) || category;
+    inferred.push({ key: 'category', value: category, label: `Category: ${category}`, source: keyword });
+  }
+
+  return inferred;
+};
+
+// Identifies an inferred filter, e.g. to remember that it was dismissed
+export const getInferredFilterId = (filter: InferredFilter) => `${filter.key}:${filter.value}`;
+
+// Whether the filters already contain this inferred value
+export const isInferredFilterApplied = (filters: SearchFilters, filter: InferredFilter) => {
+  return filters[filter.key] === filter.value;
+};
+
+export const applyInferredFilters = (filters: SearchFilters, inferred: InferredFilter[]): SearchFilters => {
+  return inferred.reduce<SearchFilters>((next, filter) => ({ ...next, [filter.key]: filter.value }), { ...filters });
+};
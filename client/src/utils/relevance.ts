@@ -0,0 +1,21 @@
+// Score from which a result counts as a good match
+export const GOOD_MATCH_SCORE = 0.6;
+
+// Threshold options offered for hiding weak matches
+export const RELEVANCE_THRESHOLDS = [0, 0.4, 0.6, 0.8];
+
+// The backend reports relevance either as 0-1 or as a percentage; use 0-1
+export const normalizeRelevanceScore = (score: number | null | undefined): number | undefined => {
+  if (typeof score !== 'number' || !Number.isFinite(score)) return undefined;
+  const normalized = score > 1 ? score / 100 : score;
+  return Math.min(1, Math.max(0, normalized));
+};
+
+// Badge text for a result, based on its rank in the relevance order and its score
+export const getMatchLabel = (score: number, rank?: number): string | null => {
+  if (rank === 0) return 'Best match';
+  if (score >= GOOD_MATCH_SCORE) return 'Good match';
+  return null;
+};
+
+export const formatRelevance = (score: number): string => `${Math.round(score * 100)}%`;
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { countNewResults, findSavedSearch, getSavedSearchKey, type SavedSearch } from './savedSearches';
+
+const savedSearch: SavedSearch = {
+  id: '1',
+  query: 'running shoes',
+  filters: { brand: 'Nike', maxPrice: 120 },
+  sortBy: 'price_asc',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  lastRunAt: '2026-10-01T10:00:00.000Z',
+  lastResultIds: ['1', '2', '3'],
+};
+
+describe('savedSearches', () => {
+  it('keys searches by query, filters and sort order', () => {
+    expect(getSavedSearchKey({ query: ' running shoes ', filters: { maxPrice: 120, brand: 'Nike' }, sortBy: 'price_asc' }))
+      .toBe(getSavedSearchKey(savedSearch));
+    expect(getSavedSearchKey({ ...savedSearch, sortBy: 'relevance' })).not.toBe(getSavedSearchKey(savedSearch));
+    expect(getSavedSearchKey({ ...savedSearch, filters: {} })).not.toBe(getSavedSearchKey(savedSearch));
+  });
+
+  it('finds the saved search matching a search', () => {
+    expect(findSavedSearch([savedSearch], { query: 'running shoes', filters: { brand: 'Nike', maxPrice: 120 }, sortBy: 'price_asc' }))
+      .toBe(savedSearch);
+    expect(findSavedSearch([savedSearch], { query: 'running shoes', filters: {}, sortBy: 'price_asc' })).toBeUndefined();
+  });
+
+  it('counts results that were not in the last run', () => {
+    expect(countNewResults(['1', '2', '3'], ['1', '2', '3'])).toBe(0);
+    expect(countNewResults(['1', '2', '3'], ['3', '1', '2'])).toBe(0);
+    expect(countNewResults(['1', '2', '3'], ['1', '4', '5'])).toBe(2);
+    expect(countNewResults([], ['1'])).toBe(1);
+  });
+});
@@ -0,0 +1,35 @@
+import type { SearchFilters, SearchOptions } from '../services/api';
+import { DEFAULT_SEARCH_URL_STATE, getResultSetKey } from './searchParams';
+
+// A search the user pinned, with the first page of results it last returned
+export interface SavedSearch {
+  id: string;
+  query: string;
+  filters: SearchFilters;
+  sortBy: NonNullable<SearchOptions['sortBy']>;
+  createdAt: string;
+  lastRunAt: string;
+  lastResultIds: string[];
+}
+
+export type SavedSearchCriteria = Pick<SavedSearch, 'query' | 'filters' | 'sortBy'>;
+
+// Searches with the same query, filters and sort order share a key
+export const getSavedSearchKey = ({ query, filters, sortBy }: SavedSearchCriteria): string => {
+  return getResultSetKey({ ...DEFAULT_SEARCH_URL_STATE, query: query.trim(), filters, sortBy });
+};
+
+export const findSavedSearch = (
+  savedSearches: SavedSearch[],
+  criteria: SavedSearchCriteria
+): SavedSearch | undefined => {
+  const key = getSavedSearchKey(criteria);
+  return savedSearches.find(search => getSavedSearchKey(search) === key);
+};
+
+// Results that were not part of the last run: new products, or products
+// that replaced others on the first page
+export const countNewResults = (lastResultIds: string[], resultIds: string[]): number => {
+  const previous = new Set(lastResultIds);
+  return resultIds.filter(id => !previous.has(id)).length;
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import type { SearchHistoryItem } from '../services/api';
+import { getSearchErrorReason, groupFailedSearches } from './searchErrors';
+
+const failed = (id: number, errorType: string | null): SearchHistoryItem => ({
+  id,
+  query: `query ${id}`,
+  resultsCount: 0,
+  executionTimeMs: 100,
+  success: false,
+  errorType,
+  filters: {},
+  sortBy: null,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt: '2026-10-01T10:00:00.000Z',
+});
+
+describe('searchErrors', () => {
+  it('explains known error types and their aliases', () => {
+    expect(getSearchErrorReason('TIMEOUT')).toMatchObject({ code: 'TIMEOUT', title: 'Timed out', retryable: true });
+    expect(getSearchErrorReason('rate-limit exceeded')).toMatchObject({ code: 'RATE_LIMITED', title: 'Too many searches' });
+    expect(getSearchErrorReason('VALIDATION_ERROR').retryable).toBe(false);
+  });
+
+  it('falls back to a readable title for unknown and missing types', () => {
+    expect(getSearchErrorReason('QUOTA_EXCEEDED')).toEqual({
+      code: 'QUOTA_EXCEEDED',
+      title: 'Quota exceeded',
+      description: 'The search failed with error "QUOTA_EXCEEDED".',
+      retryable: true,
+    });
+    expect(getSearchErrorReason(null)).toMatchObject({ code: 'UNKNOWN', title: 'Unknown error' });
+    expect(getSearchErrorReason('  ').code).toBe('UNKNOWN');
+  });
+
+  it('groups failed searches by reason, largest group first', () => {
+    const groups = groupFailedSearches([
+      failed(1, 'AI_SERVICE_ERROR'),
+      failed(2, 'TIMEOUT'),
+      { ...failed(3, null), success: true },
+      failed(4, 'ETIMEDOUT'),
+    ]);
+
+    expect(groups.map(group => [group.reason.code, group.items.map(item => item.id)])).toEqual([
+      ['TIMEOUT', [2, 4]],
+      ['AI_SERVICE_ERROR', [1]],
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { SearchHistoryItem } from '../services/api';
+
+// Why a search failed, in words a shopper understands
+export interface SearchErrorReason {
+  code: string;
+  title: string;
+  description: string;
+  retryable: boolean; // Whether running the same search again may work
+}
+
+// Failed searches the server did not classify
+export const UNKNOWN_ERROR_CODE = 'UNKNOWN';
+
+const KNOWN_REASONS: Record<string, Omit<SearchErrorReason, 'code'>> = {
+  TIMEOUT: {
+    title: 'Timed out',
+    description: 'The search took too long to finish.',
+    retryable: true,
+  },
+  AI_SERVICE_ERROR: {
+    title: 'AI service error',
+    description: 'The AI service could not interpret the query.',
+    retryable: true,
+  },
+  AI_SERVICE_UNAVAILABLE: {
+    title: 'AI service unavailable',
+    description: 'The AI service was not reachable at the time.',
+    retryable: true,
+  },
+  RATE_LIMITED: {
+    title: 'Too many searches',
+    description: 'Too many searches were made in a short time.',
+    retryable: true,
+  },
+  NETWORK_ERROR: {
+    title: 'Connection problem',
+    description: 'The search could not reach the server.',
+    retryable: true,
+  },
+  DATABASE_ERROR: {
+    title: 'Catalog unavailable',
+    description: 'The product catalog could not be read.',
+    retryable: true,
+  },
+  SERVER_ERROR: {
+    title: 'Server error',
+    description: 'Something went wrong on the server.',
+    retryable: true,
+  },
+  VALIDATION_ERROR: {
+    title: 'Invalid search',
+    description: 'The query or its filters were not accepted.',
+    retryable: false,
+  },
+  [UNKNOWN_ERROR_CODE]: {
+    title: 'Unknown error',
+    description: 'The search failed for an unknown reason.',
+    retryable: true,
+  },
+};
+
+// Other names the server uses for the same reasons
+const ALIASES: Record<string, string> = {
+  TIMEOUT_ERROR: 'TIMEOUT',
+  ETIMEDOUT: 'TIMEOUT',
+  ECONNABORTED: 'TIMEOUT',
+  AI_ERROR: 'AI_SERVICE_ERROR',
+  OPENAI_ERROR: 'AI_SERVICE_ERROR',
+  SERVICE_UNAVAILABLE: 'AI_SERVICE_UNAVAILABLE',
+  RATE_LIMIT: 'RATE_LIMITED',
+  RATE_LIMIT_EXCEEDED: 'RATE_LIMITED',
+  TOO_MANY_REQUESTS: 'RATE_LIMITED',
+  ERR_NETWORK: 'NETWORK_ERROR',
+  DB_ERROR: 'DATABASE_ERROR',
+  INTERNAL_ERROR: 'SERVER_ERROR',
+  INTERNAL_SERVER_ERROR: 'SERVER_ERROR',
+  INVALID_QUERY: 'VALIDATION_ERROR',
+  BAD_REQUEST: 'VALIDATION_ERROR',
+};
+
+// "timeout", "Rate limit" and "rate-limit-exceeded" all become upper snake case
+const normalizeCode = (errorType: string | null | undefined): string => {
+  const code = (errorType || '').trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return code || UNKNOWN_ERROR_CODE;
+};
+
+// "QUOTA_EXCEEDED" -> "Quota exceeded"
+const toTitle = (code: string) => {
+  const words = code.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const getSearchErrorReason = (errorType: string | null | undefined): SearchErrorReason => {
+  const normalized = normalizeCode(errorType);
+  const code = ALIASES[normalized] || normalized;
+  const known = KNOWN_REASONS[code];
+  if (known) return { code, ...known };
+
+  return {
+    code,
+    title: toTitle(code),
+    description: `The search failed with error "${errorType}".`,
+    retryable: true,
+  };
+};
+
+export interface FailedSearchGroup {
+  reason: SearchErrorReason;
+  items: SearchHistoryItem[];
+}
+
+// Failed searches grouped by reason, largest group first
+export const groupFailedSearches = (items: SearchHistoryItem[]): FailedSearchGroup[] => {
+  const groups = new Map<string, FailedSearchGroup>();
+  items.filter(item => !item.success).forEach(item => {
+    const reason = getSearchErrorReason(item.errorType);
+    const group = groups.get(reason.code) || { reason, items: [] };
+    group.items.push(item);
+    groups.set(reason.code, group);
+  });
+
+  return [...groups.values()].sort((a, b) => b.items.length - a.items.length || a.reason.title.localeCompare(b.reason.title));
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchParams,
+  buildSearchParams,
+  getSearchKey,
+  DEFAULT_SEARCH_URL_STATE,
+  type SearchUrlState
+} from './searchParams';
+
+describe('searchParams', () => {
+  it('returns the default state for an empty query string', () => {
+    expect(parseSearchParams(new URLSearchParams())).toEqual(DEFAULT_SEARCH_URL_STATE);
+  });
+
+  it('round-trips a full search state', () => {
+    const state: SearchUrlState = {
+      query: 'wireless headphones',
+      filters: {
+        category: 'Electronics',
+        brand: 'Sony',
+        minPrice: 50,
+        maxPrice: 300,
+        attributes: { color: 'Black', connectivity: 'Bluetooth' },
+      },
+      sortBy: 'price_asc',
+      page: 3,
+      tab: 'history',
+    };
+
+    const params = buildSearchParams(state);
+
+    expect(params.get('q')).toBe('wireless headphones');
+    expect(params.get('attr.color')).toBe('Black');
+    expect(parseSearchParams(params)).toEqual(state);
+  });
+
+  it('repeats the param for several values of one attribute', () => {
+    const state: SearchUrlState = {
+      ...DEFAULT_SEARCH_URL_STATE,
+      query: 'jacket',
+      filters: { attributes: { color: ['Black, Silver', 'Red'], size: 'M' } },
+    };
+
+    const params = buildSearchParams(state);
+
+    expect(params.getAll('attr.color')).toEqual(['Black, Silver', 'Red']);
+    expect(parseSearchParams(params)).toEqual(state);
+  });
+
+  it('leaves default values out of the URL', () => {
+    const params = buildSearchParams({ ...DEFAULT_SEARCH_URL_STATE, query: 'laptop' });
+
+    expect(params.toString()).toBe('q=laptop');
+  });
+
+  it('keeps a zero minimum price', () => {
+    const params = buildSearchParams({
+      ...DEFAULT_SEARCH_URL_STATE,
+      query: 'socks',
+      filters: { minPrice: 0 },
+    });
+
+    expect(parseSearchParams(params).filters).toEqual({ minPrice: 0 });
+  });
+
+  it('ignores invalid sort, page, tab and price values', () => {
+    const state = parseSearchParams(
+      new URLSearchParams('q=shoes&sort=cheapest&page=-2&tab=settings&minPrice=abc')
+    );
+
+    expect(state).toEqual({ ...DEFAULT_SEARCH_URL_STATE, query: 'shoes' });
+  });
+
+  it('uses the same search key regardless of the active tab', () => {
+    const state = { ...DEFAULT_SEARCH_URL_STATE, query: 'coffee maker' };
+
+    expect(getSearchKey({ ...state, tab: 'popular' })).toBe(getSearchKey(state));
+    expect(getSearchKey({ ...state, page: 2 })).not.toBe(getSearchKey(state));
+  });
+});
@@ -0,0 +1,120 @@
+import type { AttributeFilterValue, SearchFilters, SearchOptions } from '../services/api';
+
+// Tabs of the main view, in display order
+export const APP_TABS = ['search', 'history', 'popular', 'saved', 'assistant', 'insights'] as const;
+export type AppTab = typeof APP_TABS[number];
+
+type SortOption = NonNullable<SearchOptions['sortBy']>;
+
+const SORT_OPTIONS: SortOption[] = [
+  'relevance',
+  'price_asc',
+  'price_desc',
+  'name_asc',
+  'name_desc',
+  'newest',
+  'oldest',
+];
+
+// Attribute filters are encoded as `attr.<key>=<value>`
+const ATTRIBUTE_PREFIX = 'attr.';
+
+// Search state that is mirrored in the URL query string
+export interface SearchUrlState {
+  query: string;
+  filters: SearchFilters;
+  sortBy: SortOption;
+  page: number;
+  tab: AppTab;
+}
+
+export const DEFAULT_SEARCH_URL_STATE: SearchUrlState = {
+  query: '',
+  filters: {},
+  sortBy: 'relevance',
+  page: 1,
+  tab: 'search',
+};
+
+export const isSortOption = (value: unknown): value is SortOption => {
+  return typeof value === 'string' && (SORT_OPTIONS as string[]).includes(value);
+};
+
+const parsePositiveNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+// Read the search state from URL search params, ignoring invalid values
+export const parseSearchParams = (params: URLSearchParams): SearchUrlState => {
+  const filters: SearchFilters = {};
+
+  const category = params.get('category');
+  if (category) filters.category = category;
+
+  const brand = params.get('brand');
+  if (brand) filters.brand = brand;
+
+  const minPrice = parsePositiveNumber(params.get('minPrice'));
+  if (minPrice !== undefined) filters.minPrice = minPrice;
+
+  const maxPrice = parsePositiveNumber(params.get('maxPrice'));
+  if (maxPrice !== undefined) filters.maxPrice = maxPrice;
+
+  // Several selected values repeat the param
+  const attributes: Record<string, AttributeFilterValue> = {};
+  new Set(params.keys()).forEach((key) => {
+    const values = params.getAll(key).filter(Boolean);
+    if (key.startsWith(ATTRIBUTE_PREFIX) && key.length > ATTRIBUTE_PREFIX.length && values.length > 0) {
+      attributes[key.slice(ATTRIBUTE_PREFIX.length)] = values.length === 1 ? values[0] : values;
+    }
+  });
+  if (Object.keys(attributes).length > 0) filters.attributes = attributes;
+
+  const sortBy = params.get('sort');
+  const page = Math.floor(parsePositiveNumber(params.get('page')) ?? 1);
+  const tab = params.get('tab');
+
+  return {
+    query: params.get('q')?.trim() ?? '',
+    filters,
+    sortBy: isSortOption(sortBy) ? sortBy : DEFAULT_SEARCH_URL_STATE.sortBy,
+    page: page >= 1 ? page : 1,
+    tab: (APP_TABS as readonly string[]).includes(tab ?? '') ? tab as AppTab : DEFAULT_SEARCH_URL_STATE.tab,
+  };
+};
+
+// Build URL search params for a search state, leaving out default values
+export const buildSearchParams = (state: SearchUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.query) params.set('q', state.query);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.brand) params.set('brand', filters.brand);
+  if (filters.minPrice !== undefined) params.set('minPrice', filters.minPrice.toString());
+  if (filters.maxPrice !== undefined) params.set('maxPrice', filters.maxPrice.toString());
+
+  Object.keys(filters.attributes || {}).sort().forEach((key) => {
+    [filters.attributes?.[key] ?? []].flat().forEach(value => {
+      if (value) params.append(`${ATTRIBUTE_PREFIX}${key}`, value);
+    });
+  });
+
+  if (state.sortBy !== DEFAULT_SEARCH_URL_STATE.sortBy) params.set('sort', state.sortBy);
+  if (state.page > 1) params.set('page', state.page.toString());
+  if (state.tab !== DEFAULT_SEARCH_URL_STATE.tab) params.set('tab', state.tab);
+
+  return params;
+};
+
+// Stable key for the part of the state that determines which products are loaded
+export const getSearchKey = (state: SearchUrlState): string => {
+  return buildSearchParams({ ...state, tab: DEFAULT_SEARCH_URL_STATE.tab }).toString();
+};
+
+// Key for a result set regardless of the page being viewed
+export const getResultSetKey = (state: SearchUrlState): string => {
+  return getSearchKey({ ...state, page: 1 });
+};
@@ -0,0 +1,29 @@
+// Small helpers around localStorage that never throw: storage can be full,
+// disabled (private mode) or hold data written by an older version
+
+// Read a JSON value, falling back when it is missing or unreadable
+export const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    console.warn(`Could not read "${key}" from storage:`, error);
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save "${key}" to storage:`, error);
+  }
+};
+
+export const removeItem = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch (error) {
+    console.warn(`Could not remove "${key}" from storage:`, error);
+  }
+};